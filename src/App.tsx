@@ -2,293 +2,133 @@ import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { Card } from './components/ui/card'
 import { Button } from './components/ui/button'
 import { Progress } from './components/ui/progress'
-
-interface EnemyProjectile {
-  id: string
-  x: number
-  y: number
-  z: number
-  w: number
-  vx: number
-  vy: number
-  damage: number
-  color: string
-  size: number
-  createdAt: number
+import { TICK_MS, createGame, createInput, step } from './game/simulation'
+import { createGameClock } from './game/clock'
+import { BOSS_PHASES } from './game/boss'
+import { BUFFS, BUFF_IDS, type Buff } from './game/buffs'
+import { enemyCrossSection } from './game/hitbox'
+import { createFixedStepLoop } from './game/loop'
+import { dimensionShiftOf } from './game/phase'
+import { renderGame, type RenderOverlay } from './game/render'
+import { REWINDS_PER_LEVEL } from './game/rewind'
+import { WARP_WARNING } from './game/timewarp'
+import type { GameInput, GameState, Point } from './game/types'
+import { WEAPONS, WEAPON_SLOTS } from './game/weapons'
+import { VIEW_HEIGHT, VIEW_WIDTH } from './game/world'
+
+// A ?seed= query parameter replays a specific run, handy for bug reports
+const readSeed = () => {
+  const param = new URLSearchParams(window.location.search).get('seed')
+  const seed = param === null ? NaN : Number(param)
+  return Number.isFinite(seed) ? seed : Date.now() % 2147483647
 }
 
-interface Enemy {
-  id: string
-  x: number
-  y: number
-  z: number
-  w: number // 4th dimension coordinate
-  health: number
-  maxHealth: number
-  type: 'normal' | 'dimensional' | 'boss'
-  color: string
-  size: number
-  isActive: boolean
-  lastShot: number
-  shootCooldown: number
-  accuracy: number
-  detectionRange: number
-}
+const readMove = (keys: { [key: string]: boolean }): Point => ({
+  x: (keys.KeyD ? 1 : 0) - (keys.KeyA ? 1 : 0),
+  y: (keys.KeyS ? 1 : 0) - (keys.KeyW ? 1 : 0)
+})
 
-interface Player {
-  x: number
-  y: number
-  z: number
-  w: number
-  health: number
-  maxHealth: number
-  ammo: number
-  maxAmmo: number
-  score: number
-  level: number
-  lastDamaged: number
-}
+const readPhaseShift = (keys: { [key: string]: boolean }) =>
+  (keys.KeyE ? 1 : 0) - (keys.KeyQ ? 1 : 0)
 
-interface Crosshair {
-  x: number
-  y: number
+const readRewind = (keys: { [key: string]: boolean }) => Boolean(keys.KeyF)
+
+// A buff's label inside a ring that empties as the buff runs out
+const BuffIcon: React.FC<{ buff: Buff; remaining: number }> = ({ buff, remaining }) => {
+  const circumference = 2 * Math.PI * 14
+  return (
+    <div className="relative w-9 h-9" title={buff.name}>
+      <svg viewBox="0 0 36 36" className="absolute inset-0 -rotate-90">
+        <circle cx="18" cy="18" r="14" fill="rgba(0, 0, 0, 0.7)" stroke="#374151" strokeWidth="3" />
+        <circle
+          cx="18"
+          cy="18"
+          r="14"
+          fill="none"
+          stroke={buff.color}
+          strokeWidth="3"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - Math.max(0, Math.min(1, remaining)))}
+        />
+      </svg>
+      <span className="absolute inset-0 flex items-center justify-center font-mono text-sm" style={{ color: buff.color }}>
+        {buff.label}
+      </span>
+    </div>
+  )
 }
 
 const FPSGame: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [gameState, setGameState] = useState<'menu' | 'playing' | 'paused' | 'gameOver'>('menu')
-  const [player, setPlayer] = useState<Player>({
-    x: 0,
-    y: 0,
-    z: 0,
-    w: 0,
-    health: 100,
-    maxHealth: 100,
-    ammo: 30,
-    maxAmmo: 30,
-    score: 0,
-    level: 1,
-    lastDamaged: 0
+  const [game, setGame] = useState<GameState>(() => createGame(readSeed()))
+  const gameRef = useRef(game)
+  const inputRef = useRef<GameInput>(createInput({ x: VIEW_WIDTH / 2, y: VIEW_HEIGHT / 2 }))
+  const keysRef = useRef<{ [key: string]: boolean }>({})
+  // Mouse button state, plus a latch so presses shorter than one step still pull the trigger
+  const triggerRef = useRef({ mouse: false, pulled: false })
+  const overlayRef = useRef<RenderOverlay>({
+    crosshair: inputRef.current.crosshair,
+    muzzleFlash: false,
+    damageFlash: false
+  })
+  // Game-time instants the flash effects end at
+  const flashRef = useRef({ muzzle: 0, damage: 0 })
+  const [clock] = useState(createGameClock)
+
+  const { player, enemies, enemyProjectiles, warp } = game
+  const warpFraction = warp.meter / warp.maxMeter
+  const rewindCooldown = Math.max(0, game.rewind.cooldownEndsAt - game.time)
+  const dimensionShift = dimensionShiftOf(player.w)
+  const reloading = game.reloadEndsAt !== null
+  const weapon = WEAPONS[player.weaponId]
+  const activeBuffs = BUFF_IDS.flatMap(id => {
+    const active = player.buffs[id]
+    return active ? [[id, active] as const] : []
   })
-  const [enemies, setEnemies] = useState<Enemy[]>([])
-  const [enemyProjectiles, setEnemyProjectiles] = useState<EnemyProjectile[]>([])
-  const [crosshair, setCrosshair] = useState<Crosshair>({ x: 400, y: 300 })
-  const [keys, setKeys] = useState<{ [key: string]: boolean }>({})
-  const [dimensionShift, setDimensionShift] = useState(0)
-  const [timeWarp, setTimeWarp] = useState(1)
-  const [reloading, setReloading] = useState(false)
-  const [muzzleFlash, setMuzzleFlash] = useState(false)
-  const [damageFlash, setDamageFlash] = useState(false)
+  const boss = enemies.find(enemy => enemy.isActive && enemy.boss)
+  const outOfPhase = enemies.filter(enemy =>
+    enemy.isActive && enemyCrossSection(enemy, player.w, weapon.wTolerance) === 0
+  ).length
 
   // Initialize game
   const initGame = useCallback(() => {
-    setPlayer({
-      x: 0,
-      y: 0,
-      z: 0,
-      w: 0,
-      health: 100,
-      maxHealth: 100,
-      ammo: 30,
-      maxAmmo: 30,
-      score: 0,
-      level: 1,
-      lastDamaged: 0
-    })
-    setEnemies(generateEnemies(5))
-    setEnemyProjectiles([])
+    const fresh = createGame(readSeed())
+    gameRef.current = fresh
+    setGame(fresh)
+    inputRef.current = createInput(inputRef.current.crosshair)
     setGameState('playing')
   }, [])
 
-  // Generate enemies with 4D positioning and shooting capabilities
-  const generateEnemies = (count: number): Enemy[] => {
-    return Array.from({ length: count }, (_, i) => ({
-      id: `enemy-${i}-${Date.now()}`,
-      x: (Math.random() - 0.5) * 800,
-      y: (Math.random() - 0.5) * 600,
-      z: Math.random() * 200 - 100,
-      w: Math.random() * 100 - 50,
-      health: 50,
-      maxHealth: 50,
-      type: Math.random() > 0.8 ? 'dimensional' : 'normal',
-      color: Math.random() > 0.8 ? '#ff0066' : '#ff3300',
-      size: 20 + Math.random() * 10,
-      isActive: true,
-      lastShot: 0,
-      shootCooldown: 1000 + Math.random() * 2000, // 1-3 seconds between shots
-      accuracy: 0.3 + Math.random() * 0.4, // 30-70% accuracy
-      detectionRange: 300 + Math.random() * 200 // 300-500 pixels detection range
-    }))
-  }
-
-  // Enemy AI shooting logic
-  const updateEnemyShooting = useCallback((currentTime: number) => {
-    const newProjectiles: EnemyProjectile[] = []
-    
-    setEnemies(prev => prev.map(enemy => {
-      if (!enemy.isActive) return enemy
-      
-      // Calculate distance to player (in screen coordinates)
-      const dx = (crosshair.x - 400) - enemy.x
-      const dy = (crosshair.y - 300) - enemy.y
-      const distance = Math.sqrt(dx * dx + dy * dy)
-      
-      // Check if enemy can shoot
-      if (distance <= enemy.detectionRange && 
-          currentTime - enemy.lastShot > enemy.shootCooldown) {
-        
-        // Calculate projectile trajectory with some inaccuracy
-        const angle = Math.atan2(dy, dx)
-        const inaccuracy = (Math.random() - 0.5) * (1 - enemy.accuracy) * Math.PI / 4
-        const finalAngle = angle + inaccuracy
-        
-        const speed = 3 + Math.random() * 2 // 3-5 pixels per frame
-        
-        newProjectiles.push({
-          id: `proj-${enemy.id}-${currentTime}`,
-          x: enemy.x + 400,
-          y: enemy.y + 300,
-          z: enemy.z,
-          w: enemy.w,
-          vx: Math.cos(finalAngle) * speed,
-          vy: Math.sin(finalAngle) * speed,
-          damage: 15 + Math.random() * 10, // 15-25 damage
-          color: enemy.type === 'dimensional' ? '#ff0066' : '#ff3300',
-          size: 3 + Math.random() * 2,
-          createdAt: currentTime
-        })
-        
-        return { ...enemy, lastShot: currentTime }
-      }
-      
-      return enemy
-    }))
-    
-    // Add new projectiles
-    if (newProjectiles.length > 0) {
-      setEnemyProjectiles(prev => [...prev, ...newProjectiles])
-    }
-  }, [crosshair])
-
-  // Update enemy projectiles and check for player hits
-  const updateProjectiles = useCallback(() => {
-    setEnemyProjectiles(prev => {
-      const updated = prev.map(proj => ({
-        ...proj,
-        x: proj.x + proj.vx * timeWarp,
-        y: proj.y + proj.vy * timeWarp
-      })).filter(proj => {
-        // Remove projectiles that are off-screen or too old
-        const isOnScreen = proj.x > -50 && proj.x < 850 && proj.y > -50 && proj.y < 650
-        const isNotTooOld = Date.now() - proj.createdAt < 5000 // 5 seconds max lifetime
-        return isOnScreen && isNotTooOld
-      })
-      
-      // Check for player hits
-      updated.forEach(proj => {
-        const playerScreenX = 400 + (player.x - proj.x + 400)
-        const playerScreenY = 300 + (player.y - proj.y + 300)
-        const distance = Math.sqrt(
-          Math.pow(proj.x - 400, 2) + Math.pow(proj.y - 300, 2)
-        )
-        
-        // Hit detection - if projectile is close to player center
-        if (distance < 25) { // Player hit radius
-          setPlayer(prevPlayer => {
-            const newHealth = Math.max(0, prevPlayer.health - proj.damage)
-            if (newHealth === 0) {
-              setGameState('gameOver')
-            }
-            return {
-              ...prevPlayer,
-              health: newHealth,
-              lastDamaged: Date.now()
-            }
-          })
-          
-          // Trigger damage flash
-          setDamageFlash(true)
-          setTimeout(() => setDamageFlash(false), 200)
-          
-          // Mark projectile for removal by setting x to invalid position
-          proj.x = -1000
-        }
-      })
-      
-      // Remove projectiles that hit the player
-      return updated.filter(proj => proj.x !== -1000)
-    })
-  }, [player.x, player.y, timeWarp])
-
-  // Handle shooting
-  const shoot = useCallback(() => {
-    if (player.ammo <= 0 || reloading) return
-
-    setPlayer(prev => ({ ...prev, ammo: prev.ammo - 1 }))
-    setMuzzleFlash(true)
-    setTimeout(() => setMuzzleFlash(false), 100)
-
-    // Check for hits
-    setEnemies(prev => prev.map(enemy => {
-      const distance = Math.sqrt(
-        Math.pow(enemy.x - crosshair.x + 400, 2) +
-        Math.pow(enemy.y - crosshair.y + 300, 2)
-      )
-      
-      if (distance < enemy.size && enemy.isActive) {
-        const newHealth = enemy.health - 25
-        if (newHealth <= 0) {
-          setPlayer(p => ({ ...p, score: p.score + 100 }))
-          return { ...enemy, health: 0, isActive: false }
-        }
-        return { ...enemy, health: newHealth }
-      }
-      return enemy
-    }))
-  }, [player.ammo, reloading, crosshair])
-
-  // Handle reloading
-  const reload = useCallback(() => {
-    if (reloading || player.ammo === player.maxAmmo) return
-    setReloading(true)
-    setTimeout(() => {
-      setPlayer(prev => ({ ...prev, ammo: prev.maxAmmo }))
-      setReloading(false)
-    }, 2000)
-  }, [reloading, player.ammo, player.maxAmmo])
-
-  // 4D dimension shifting
-  const shiftDimension = useCallback((direction: number) => {
-    setDimensionShift(prev => Math.max(-100, Math.min(100, prev + direction * 10)))
-    setPlayer(prev => ({ ...prev, w: prev.w + direction * 5 }))
-  }, [])
-
-  // Time warp mechanics
-  const toggleTimeWarp = useCallback(() => {
-    setTimeWarp(prev => prev === 1 ? 0.5 : 1)
-  }, [])
-
   // Keyboard controls
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      setKeys(prev => ({ ...prev, [e.code]: true }))
-      
+      keysRef.current[e.code] = true
+      const input = inputRef.current
+
       switch (e.code) {
         case 'Space':
           e.preventDefault()
-          shoot()
+          if (!e.repeat) triggerRef.current.pulled = true
           break
         case 'KeyR':
-          reload()
+          input.reload = true
           break
-        case 'KeyQ':
-          shiftDimension(-1)
+        case 'KeyT':
+          input.toggleTimeWarp = true
           break
-        case 'KeyE':
-          shiftDimension(1)
+        case 'KeyG':
+          input.throwGrenade = true
           break
-        case 'KeyT':
-          toggleTimeWarp()
+        case 'Digit1':
+        case 'Digit2':
+        case 'Digit3':
+        case 'Digit4':
+        case 'Digit5':
+        case 'Digit6':
+        case 'Digit7':
+        case 'Digit8':
+          input.selectWeapon = Number(e.code.slice(5)) - 1
           break
         case 'Escape':
           setGameState(prev => prev === 'playing' ? 'paused' : 'playing')
@@ -297,17 +137,25 @@ const FPSGame: React.FC = () => {
     }
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      setKeys(prev => ({ ...prev, [e.code]: false }))
+      keysRef.current[e.code] = false
+    }
+
+    // Keyups are lost while the window is unfocused, so forget held keys
+    const handleBlur = () => {
+      keysRef.current = {}
+      triggerRef.current.mouse = false
     }
 
     window.addEventListener('keydown', handleKeyDown)
     window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', handleBlur)
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
       window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleBlur)
     }
-  }, [shoot, reload, shiftDimension, toggleTimeWarp])
+  }, [])
 
   // Mouse controls
   useEffect(() => {
@@ -315,205 +163,126 @@ const FPSGame: React.FC = () => {
       if (gameState !== 'playing') return
       const rect = canvasRef.current?.getBoundingClientRect()
       if (rect) {
-        setCrosshair({
+        const crosshair = {
           x: e.clientX - rect.left,
           y: e.clientY - rect.top
-        })
+        }
+        inputRef.current.crosshair = crosshair
+        overlayRef.current.crosshair = crosshair
       }
     }
 
-    const handleClick = () => {
-      if (gameState === 'playing') {
-        shoot()
-      }
+    const handleMouseDown = (e: MouseEvent) => {
+      if (gameState !== 'playing' || e.button !== 0) return
+      triggerRef.current.mouse = true
+      triggerRef.current.pulled = true
+    }
+
+    // Released anywhere, not just over the canvas
+    const handleMouseUp = (e: MouseEvent) => {
+      if (e.button === 0) triggerRef.current.mouse = false
+    }
+
+    // Scrolling cycles through the weapon inventory
+    const handleWheel = (e: WheelEvent) => {
+      if (gameState !== 'playing' || e.deltaY === 0) return
+      e.preventDefault()
+      inputRef.current.cycleWeapon = Math.sign(e.deltaY)
     }
 
     const canvas = canvasRef.current
     if (canvas) {
       canvas.addEventListener('mousemove', handleMouseMove)
-      canvas.addEventListener('click', handleClick)
+      canvas.addEventListener('mousedown', handleMouseDown)
+      canvas.addEventListener('wheel', handleWheel, { passive: false })
     }
+    window.addEventListener('mouseup', handleMouseUp)
 
     return () => {
       if (canvas) {
         canvas.removeEventListener('mousemove', handleMouseMove)
-        canvas.removeEventListener('click', handleClick)
+        canvas.removeEventListener('mousedown', handleMouseDown)
+        canvas.removeEventListener('wheel', handleWheel)
       }
+      window.removeEventListener('mouseup', handleMouseUp)
     }
-  }, [gameState, shoot])
+  }, [gameState])
 
-  // Game loop
+  // Game time only runs while actually playing
   useEffect(() => {
-    if (gameState !== 'playing') return
-
-    const gameLoop = setInterval(() => {
-      const currentTime = Date.now()
-      
-      // Update enemy positions
-      setEnemies(prev => prev.map(enemy => {
-        if (!enemy.isActive) return enemy
-        
-        return {
-          ...enemy,
-          x: enemy.x + (Math.sin(currentTime * 0.001 + enemy.id.length) * 2 * timeWarp),
-          y: enemy.y + (Math.cos(currentTime * 0.001 + enemy.id.length) * 2 * timeWarp),
-          w: enemy.w + Math.sin(currentTime * 0.002) * 0.5 * timeWarp
-        }
-      }))
-
-      // Update enemy shooting
-      updateEnemyShooting(currentTime)
-      
-      // Update projectiles
-      updateProjectiles()
-
-      // Check if level complete
-      if (enemies.every(enemy => !enemy.isActive)) {
-        setPlayer(prev => ({ ...prev, level: prev.level + 1 }))
-        setEnemies(generateEnemies(5 + player.level))
-        setEnemyProjectiles([]) // Clear projectiles on new level
-      }
-    }, 16 / timeWarp)
-
-    return () => clearInterval(gameLoop)
-  }, [gameState, enemies, timeWarp, player.level, updateEnemyShooting, updateProjectiles])
+    if (gameState === 'playing') return
+    clock.pause(gameState)
+    return () => clock.resume(gameState)
+  }, [clock, gameState])
 
-  // Render game
+  // ...and while the tab is visible
   useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    // Clear canvas
-    ctx.fillStyle = `linear-gradient(45deg, #000033 ${dimensionShift + 50}%, #001166 ${100 - dimensionShift}%)`
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-    // Damage flash effect
-    if (damageFlash) {
-      ctx.fillStyle = 'rgba(255, 0, 0, 0.3)'
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-    }
-
-    // Draw 4D grid effect
-    ctx.strokeStyle = `rgba(0, 255, 255, ${0.2 + Math.abs(dimensionShift) * 0.01})`
-    ctx.lineWidth = 1
-    for (let i = 0; i < canvas.width; i += 50 + dimensionShift) {
-      ctx.beginPath()
-      ctx.moveTo(i, 0)
-      ctx.lineTo(i, canvas.height)
-      ctx.stroke()
-    }
-    for (let i = 0; i < canvas.height; i += 50 + dimensionShift) {
-      ctx.beginPath()
-      ctx.moveTo(0, i)
-      ctx.lineTo(canvas.width, i)
-      ctx.stroke()
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        clock.pause('hidden')
+      } else {
+        clock.resume('hidden')
+      }
     }
 
-    // Draw enemy projectiles
-    enemyProjectiles.forEach(proj => {
-      const wOffset = (proj.w - player.w) * 2
-      const alpha = Math.max(0.1, 1 - Math.abs(wOffset) * 0.01)
-      
-      ctx.save()
-      ctx.globalAlpha = alpha
-      ctx.fillStyle = proj.color
-      ctx.shadowColor = proj.color
-      ctx.shadowBlur = 10
-      
-      // Draw projectile with trail effect
-      ctx.beginPath()
-      ctx.arc(proj.x, proj.y, proj.size, 0, 2 * Math.PI)
-      ctx.fill()
-      
-      // Trail effect
-      ctx.globalAlpha = alpha * 0.5
-      ctx.beginPath()
-      ctx.arc(proj.x - proj.vx * 2, proj.y - proj.vy * 2, proj.size * 0.7, 0, 2 * Math.PI)
-      ctx.fill()
-      
-      ctx.restore()
-    })
+    handleVisibilityChange()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [clock])
 
-    // Draw enemies with 4D effects
-    enemies.forEach(enemy => {
-      if (!enemy.isActive) return
-
-      const wOffset = (enemy.w - player.w) * 2
-      const size = enemy.size + wOffset
-      const alpha = Math.max(0.1, 1 - Math.abs(wOffset) * 0.01)
-      
-      ctx.save()
-      ctx.globalAlpha = alpha
-      ctx.fillStyle = enemy.color
-      ctx.shadowColor = enemy.color
-      ctx.shadowBlur = 20
-      
-      // Draw enemy
-      ctx.beginPath()
-      ctx.arc(
-        enemy.x + 400 + wOffset,
-        enemy.y + 300 + wOffset,
-        Math.max(5, size),
-        0,
-        2 * Math.PI
-      )
-      ctx.fill()
-
-      // Shooting indicator (glowing effect when about to shoot)
-      const timeSinceLastShot = Date.now() - enemy.lastShot
-      const timeUntilNextShot = enemy.shootCooldown - timeSinceLastShot
-      if (timeUntilNextShot < 500 && timeUntilNextShot > 0) {
-        ctx.strokeStyle = '#ffff00'
-        ctx.lineWidth = 2
-        ctx.beginPath()
-        ctx.arc(
-          enemy.x + 400 + wOffset,
-          enemy.y + 300 + wOffset,
-          Math.max(5, size) + 5,
-          0,
-          2 * Math.PI
-        )
-        ctx.stroke()
-      }
+  // Game loop: fixed simulation steps on requestAnimationFrame, interpolated rendering
+  useEffect(() => {
+    if (gameState !== 'playing') return
 
-      // Health bar
-      if (enemy.health < enemy.maxHealth) {
-        ctx.fillStyle = 'red'
-        ctx.fillRect(enemy.x + 390, enemy.y + 280, 20, 3)
-        ctx.fillStyle = 'green'
-        ctx.fillRect(enemy.x + 390, enemy.y + 280, 20 * (enemy.health / enemy.maxHealth), 3)
+    const overlay = overlayRef.current
+    const flash = flashRef.current
+    const trigger = triggerRef.current
+    let previous = gameRef.current
+    let rendered = gameRef.current
+
+    const loop = createFixedStepLoop({
+      clock,
+      stepMs: TICK_MS,
+      update: () => {
+        const input = inputRef.current
+        input.move = readMove(keysRef.current)
+        input.phaseShift = readPhaseShift(keysRef.current)
+        input.rewind = readRewind(keysRef.current)
+        input.shoot = Boolean(keysRef.current.Space) || trigger.mouse || trigger.pulled
+        trigger.pulled = false
+        inputRef.current = createInput(input.crosshair)
+
+        previous = gameRef.current
+        const next = step(previous, input, TICK_MS)
+        gameRef.current = next
+
+        next.events.forEach(event => {
+          if (event.type === 'playerShot') {
+            flash.muzzle = clock.now() + 100
+          } else if (event.type === 'playerHit') {
+            flash.damage = clock.now() + 200
+          }
+        })
+      },
+      render: alpha => {
+        overlay.muzzleFlash = clock.now() < flash.muzzle
+        overlay.damageFlash = clock.now() < flash.damage
+
+        const ctx = canvasRef.current?.getContext('2d')
+        if (ctx) renderGame(ctx, previous, gameRef.current, alpha, overlay)
+
+        // Only hand React a new snapshot when the simulation actually advanced
+        if (rendered !== gameRef.current) {
+          rendered = gameRef.current
+          setGame(rendered)
+          if (rendered.status === 'gameOver') setGameState('gameOver')
+        }
       }
-      
-      ctx.restore()
     })
 
-    // Draw crosshair
-    ctx.strokeStyle = '#00ff00'
-    ctx.lineWidth = 2
-    ctx.beginPath()
-    ctx.moveTo(crosshair.x - 10, crosshair.y)
-    ctx.lineTo(crosshair.x + 10, crosshair.y)
-    ctx.moveTo(crosshair.x, crosshair.y - 10)
-    ctx.lineTo(crosshair.x, crosshair.y + 10)
-    ctx.stroke()
-
-    // Muzzle flash
-    if (muzzleFlash) {
-      ctx.fillStyle = 'rgba(255, 255, 0, 0.8)'
-      ctx.beginPath()
-      ctx.arc(crosshair.x, crosshair.y, 30, 0, 2 * Math.PI)
-      ctx.fill()
-    }
-
-    // Time warp effect
-    if (timeWarp !== 1) {
-      ctx.fillStyle = 'rgba(0, 255, 255, 0.1)'
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-    }
-  }, [enemies, enemyProjectiles, crosshair, dimensionShift, player.w, muzzleFlash, timeWarp, damageFlash])
+    loop.start()
+    return () => loop.stop()
+  }, [clock, gameState])
 
   if (gameState === 'menu') {
     return (
@@ -527,10 +296,14 @@ const FPSGame: React.FC = () => {
             <div className="space-y-2 text-sm text-gray-400">
               <p>• WASD: Move</p>
               <p>• Mouse: Aim</p>
-              <p>• Click/Space: Shoot</p>
+              <p>• Click/Space (hold for automatic weapons): Shoot</p>
               <p>• R: Reload</p>
-              <p>• Q/E: Shift 4D dimension</p>
-              <p>• T: Toggle time warp</p>
+              <p>• 1-8 / Scroll: Switch weapon</p>
+              <p>• G: Throw grenade at the crosshair (the blast reaches nearby w slices)</p>
+              <p>• Q/E (hold): Shift 4D dimension (out-of-phase shots pass through)</p>
+              <p>• T: Toggle time warp (drains its meter, kills refill it)</p>
+              <p>• F (hold): Rewind the last few seconds ({REWINDS_PER_LEVEL} per level)</p>
+              <p>• Power-ups spawn around the arena, sometimes a little out of phase</p>
               <p className="text-red-400">• Enemies now shoot back!</p>
             </div>
             <Button onClick={initGame} className="px-8 py-4 text-lg bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700">
@@ -569,6 +342,7 @@ const FPSGame: React.FC = () => {
             <div className="space-y-2">
               <p className="text-xl text-white">Final Score: {player.score}</p>
               <p className="text-lg text-gray-300">Level Reached: {player.level}</p>
+              <p className="text-xs text-gray-500 font-mono">Seed: {game.seed}</p>
             </div>
             <div className="space-x-4">
               <Button onClick={initGame} className="px-6 py-2 bg-red-600 hover:bg-red-700">
@@ -589,8 +363,8 @@ const FPSGame: React.FC = () => {
       {/* Game Canvas */}
       <canvas
         ref={canvasRef}
-        width={800}
-        height={600}
+        width={VIEW_WIDTH}
+        height={VIEW_HEIGHT}
         className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 border border-purple-500 cursor-none"
       />
 
@@ -598,20 +372,69 @@ const FPSGame: React.FC = () => {
       <div className="absolute top-4 left-4 space-y-2">
         <Card className="p-3 bg-black/70 border-purple-500">
           <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-cyan-300 font-mono">SH:</span>
+              <Progress value={(player.shield / player.maxShield) * 100} className="w-32 h-2" />
+              <span className="text-white text-sm">{Math.ceil(player.shield)}</span>
+            </div>
             <div className="flex items-center space-x-2">
               <span className="text-green-400 font-mono">HP:</span>
-              <Progress value={player.health} className="w-32 h-2" />
-              <span className="text-white text-sm">{player.health}</span>
+              <Progress value={(player.health / player.maxHealth) * 100} className="w-32 h-2" />
+              <span className="text-white text-sm">{Math.ceil(player.health)}</span>
             </div>
+            <div className="text-gray-400 font-mono text-xs">ARMOR: {Math.round(player.armor * 100)}%</div>
             <div className="flex items-center space-x-2">
               <span className="text-blue-400 font-mono">AMMO:</span>
-              <span className="text-white font-mono">{player.ammo}/{player.maxAmmo}</span>
+              <span className="text-white font-mono">{player.ammo[weapon.id]} / {player.reserve[weapon.id]}</span>
               {reloading && <span className="text-yellow-400 text-xs">RELOADING...</span>}
             </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-lime-400 font-mono">GRENADES:</span>
+              <span className="text-white font-mono">{player.grenadeCount}</span>
+            </div>
+            <div className="flex flex-wrap gap-x-2 max-w-xs font-mono text-xs">
+              {WEAPON_SLOTS.filter(id => player.inventory.includes(id)).map(id => (
+                <span key={id} className={id === weapon.id ? 'text-white' : 'text-gray-500'}>
+                  {WEAPON_SLOTS.indexOf(id) + 1}:{WEAPONS[id].name}
+                </span>
+              ))}
+            </div>
           </div>
         </Card>
+        {activeBuffs.length > 0 && (
+          <div className="flex gap-2">
+            {activeBuffs.map(([id, active]) => (
+              <BuffIcon key={id} buff={BUFFS[id]} remaining={(active.endsAt - game.time) / active.duration} />
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Boss health, one segment per attack phase */}
+      {boss?.boss && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 w-96">
+          <Card className="p-3 bg-black/70 border-yellow-500">
+            <div className="flex justify-between text-xs font-mono mb-1">
+              <span className="text-yellow-400">{boss.boss.name}</span>
+              <span className="text-gray-300">{BOSS_PHASES[boss.boss.phase].name}</span>
+            </div>
+            <div className="flex gap-1">
+              {BOSS_PHASES.map((phase, i) => {
+                const top = phase.threshold
+                const bottom = BOSS_PHASES[i + 1]?.threshold ?? 0
+                const fraction = boss.health / boss.maxHealth
+                const fill = Math.max(0, Math.min(1, (fraction - bottom) / (top - bottom)))
+                return (
+                  <div key={phase.name} className="h-2 bg-gray-800" style={{ flex: top - bottom }}>
+                    <div className="h-full bg-yellow-400" style={{ width: `${fill * 100}%` }} />
+                  </div>
+                )
+              })}
+            </div>
+          </Card>
+        </div>
+      )}
+
       {/* Score and Level */}
       <div className="absolute top-4 right-4">
         <Card className="p-3 bg-black/70 border-purple-500">
@@ -628,8 +451,17 @@ const FPSGame: React.FC = () => {
           <div className="space-y-2">
             <div className="text-purple-400 font-mono text-xs">4D DIMENSION</div>
             <Progress value={50 + dimensionShift / 2} className="w-32 h-2" />
+            <div className="text-purple-400 font-mono text-xs">PHASE ENERGY</div>
+            <Progress value={(player.phase.energy / player.phase.maxEnergy) * 100} className="w-32 h-2" />
             <div className="text-cyan-400 font-mono text-xs">
-              TIME: {timeWarp === 1 ? 'NORMAL' : 'WARP'}
+              TIME: {warp.active ? 'WARP' : 'NORMAL'}
+            </div>
+            <Progress value={warpFraction * 100} className="w-32 h-2" />
+            {warp.active && warpFraction < WARP_WARNING && (
+              <div className="text-red-400 font-mono text-xs animate-pulse">WARP RUNNING OUT</div>
+            )}
+            <div className="text-pink-400 font-mono text-xs">
+              REWIND: {rewindCooldown > 0 ? `${Math.ceil(rewindCooldown / 1000)}s` : 'READY'} ({game.rewind.usesLeft} left)
             </div>
           </div>
         </Card>
@@ -642,6 +474,9 @@ const FPSGame: React.FC = () => {
             <div className="text-red-400 font-mono">
               ENEMIES: {enemies.filter(e => e.isActive).length}
             </div>
+            <div className="text-purple-400 font-mono text-xs">
+              OUT OF PHASE: {outOfPhase}
+            </div>
             <div className="text-orange-400 font-mono text-xs">
               INCOMING: {enemyProjectiles.length}
             </div>
@@ -649,6 +484,16 @@ const FPSGame: React.FC = () => {
         </Card>
       </div>
 
+      {/* Boss intros and phase announcements */}
+      {game.banner && (
+        <div className="absolute top-1/4 left-1/2 -translate-x-1/2 text-center pointer-events-none">
+          <div className="text-yellow-400 text-4xl font-bold tracking-widest animate-pulse">
+            {game.banner.title}
+          </div>
+          <div className="text-gray-300 text-lg font-mono">{game.banner.subtitle}</div>
+        </div>
+      )}
+
       {/* Low Health Warning */}
       {player.health <= 25 && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center">
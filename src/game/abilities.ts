@@ -0,0 +1,65 @@
+import { ARCHETYPES } from './archetypes'
+import { createEnemy } from './enemies'
+import type { Rng } from './rng'
+import { scaledDt } from './timewarp'
+import type { Enemy, GameEvent } from './types'
+
+const SHIELD_REGEN_DELAY = 2500 // enemy ms since the last hit before a shield recharges
+const SHIELD_REGEN_RATE = 15 // per second
+
+// Allies a healer is currently patching up: hurt, in range, and never bosses or itself
+export function healTargets(healer: Enemy, enemies: Enemy[]) {
+  const heal = ARCHETYPES[healer.archetype].heal
+  if (!heal || !healer.isActive) return []
+  return enemies.filter(enemy =>
+    enemy !== healer &&
+    enemy.isActive &&
+    !enemy.boss &&
+    enemy.health < enemy.maxHealth &&
+    Math.hypot(enemy.x - healer.x, enemy.y - healer.y) <= heal.range
+  )
+}
+
+// Healers mend nearby allies and shields recharge, each on the enemy's own clock
+export function updateAbilities(enemies: Enemy[], dt: number, timeWarp: number): Enemy[] {
+  const healing = new Map<string, number>()
+  enemies.forEach(healer => {
+    const heal = ARCHETYPES[healer.archetype].heal
+    if (!heal) return
+    const amount = heal.rate * scaledDt(dt, timeWarp, healer.timeResistance) / 1000
+    healTargets(healer, enemies).forEach(enemy => healing.set(enemy.id, (healing.get(enemy.id) ?? 0) + amount))
+  })
+
+  return enemies.map(enemy => {
+    if (!enemy.isActive) return enemy
+    const health = Math.min(enemy.maxHealth, enemy.health + (healing.get(enemy.id) ?? 0))
+    let { shield } = enemy
+    if (shield < enemy.maxShield && enemy.clock - enemy.lastDamaged >= SHIELD_REGEN_DELAY) {
+      const seconds = scaledDt(dt, timeWarp, enemy.timeResistance) / 1000
+      shield = Math.min(enemy.maxShield, shield + SHIELD_REGEN_RATE * seconds)
+    }
+    return health === enemy.health && shield === enemy.shield ? enemy : { ...enemy, health, shield }
+  })
+}
+
+// Enemies killed this step whose archetype splits leave smaller ones behind, already fighting
+export function splitEnemies(enemies: Enemy[], events: GameEvent[], rng: Rng, level: number): Enemy[] {
+  const spawned: Enemy[] = []
+
+  events.forEach(event => {
+    if (event.type !== 'enemyKilled') return
+    const parent = enemies.find(e => e.id === event.enemyId)
+    const split = parent && ARCHETYPES[parent.archetype].split
+    if (!parent || !split) return
+
+    for (let i = 0; i < split.count; i++) {
+      const angle = (i / split.count) * Math.PI * 2
+      const x = parent.x + Math.cos(angle) * parent.size
+      const y = parent.y + Math.sin(angle) * parent.size
+      const child = createEnemy(rng, split.into, `${parent.id}-split-${i}`, level, x, y, parent.w)
+      spawned.push({ ...child, ai: { ...child.ai, mode: 'pursue' } })
+    }
+  })
+
+  return spawned
+}
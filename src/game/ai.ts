@@ -0,0 +1,164 @@
+import { distanceToHitbox } from './hitbox'
+import { ARCHETYPES, type Movement } from './archetypes'
+import { idHash, type Rng } from './rng'
+import { scaledDt } from './timewarp'
+import type { AiMode, AiState, Enemy, PlayerHitbox } from './types'
+import { clampToArena } from './world'
+
+const SPEED: Record<AiMode, number> = { idle: 40, alert: 0, pursue: 140, strafe: 110, flee: 170 } // pixels per second
+const ACCELERATION = 400 // how quickly enemies change velocity, pixels per second squared
+const ALERT_TIME = 600 // ms spent sizing the player up before closing in
+const PURSUE_MARGIN = 0.2 // fraction of detectionRange past the strafe range where circling turns back into pursuit
+const LOSE_RANGE = 1.5 // ...and beyond which enemies lose interest entirely
+const STRAFE_FLIP_RATE = 0.3 // chance per second of reversing the circling direction
+const WANDER_TURN = 2 // radians per second an idle enemy's heading can swing
+const SEPARATION_PADDING = 20 // extra gap kept between neighbours' hyperspheres
+const SEPARATION_SPEED = 150
+const SUPPRESSOR_RANGE = 0.15 // suppressors circle this much further out (fraction of detectionRange)
+const MAX_STRAFE_RANGE = 0.85
+const FLANK_ARRIVE = 80 // pixels from their flank point where flankers start easing off
+const W_DRIFT_SPEED = 31.25
+
+export function createAi(rng: Rng): AiState {
+  return {
+    mode: 'idle',
+    since: 0,
+    strafeDirection: rng.chance(0.5) ? 1 : -1,
+    wanderAngle: rng.range(0, Math.PI * 2)
+  }
+}
+
+// Strafe and flee thresholds come from the enemy's archetype
+function nextMode(enemy: Enemy, distance: number, movement: Movement): AiMode {
+  const { mode, since } = enemy.ai
+  if (enemy.health / enemy.maxHealth <= movement.fleeHealth) return 'flee'
+
+  switch (mode) {
+    case 'idle':
+      return distance <= enemy.detectionRange ? 'alert' : 'idle'
+    case 'alert':
+      return enemy.clock - since >= ALERT_TIME ? 'pursue' : 'alert'
+    case 'pursue':
+      if (distance > enemy.detectionRange * LOSE_RANGE) return 'idle'
+      return distance <= enemy.detectionRange * movement.strafeRange ? 'strafe' : 'pursue'
+    case 'strafe':
+      return distance > enemy.detectionRange * (movement.strafeRange + PURSUE_MARGIN) ? 'pursue' : 'strafe'
+    case 'flee':
+      // Patched up (by a healer, say): back into the fight
+      return 'pursue'
+  }
+}
+
+// Push away from every neighbour whose hypersphere is about to overlap this one in x/y
+function separation(enemy: Enemy, enemies: Enemy[]) {
+  let x = 0
+  let y = 0
+  enemies.forEach(other => {
+    if (other === enemy || !other.isActive) return
+    const dx = enemy.x - other.x
+    const dy = enemy.y - other.y
+    const distance = Math.hypot(dx, dy)
+    const limit = enemy.size + other.size + SEPARATION_PADDING
+    if (distance >= limit) return
+    // Coincident enemies get pushed apart along an arbitrary but stable direction
+    const push = (1 - distance / limit) * SEPARATION_SPEED
+    x += distance > 0 ? (dx / distance) * push : push
+    y += distance > 0 ? (dy / distance) * push : 0
+  })
+  return { x, y }
+}
+
+// Pick each enemy's behaviour from its distance to the player and its health, then
+// steer towards that behaviour's desired velocity while keeping clear of neighbours
+export function updateEnemyAi(
+  enemies: Enemy[],
+  target: PlayerHitbox,
+  dt: number,
+  timeWarp: number,
+  rng: Rng
+): Enemy[] {
+  return enemies.map(enemy => {
+    if (!enemy.isActive) return enemy
+
+    const seconds = scaledDt(dt, timeWarp, enemy.timeResistance) / 1000
+    const distance = distanceToHitbox(target, enemy.x, enemy.y)
+    const base = ARCHETYPES[enemy.archetype].movement
+    const movement = enemy.squad?.role === 'suppressor'
+      ? { ...base, strafeRange: Math.min(MAX_STRAFE_RANGE, base.strafeRange + SUPPRESSOR_RANGE) }
+      : base
+    const mode = nextMode(enemy, distance, movement)
+    let ai = mode === enemy.ai.mode ? enemy.ai : { ...enemy.ai, mode, since: enemy.clock }
+
+    const centerDistance = Math.max(1, Math.hypot(target.x - enemy.x, target.y - enemy.y))
+    const toX = (target.x - enemy.x) / centerDistance
+    const toY = (target.y - enemy.y) / centerDistance
+    const speed = SPEED[mode] * movement.speed
+    let desiredX = 0
+    let desiredY = 0
+
+    switch (mode) {
+      case 'idle': {
+        const wanderAngle = ai.wanderAngle + rng.range(-1, 1) * WANDER_TURN * seconds
+        ai = { ...ai, wanderAngle }
+        desiredX = Math.cos(wanderAngle) * speed
+        desiredY = Math.sin(wanderAngle) * speed
+        break
+      }
+      case 'pursue':
+        desiredX = toX * speed
+        desiredY = toY * speed
+        break
+      case 'strafe': {
+        if (rng.chance(STRAFE_FLIP_RATE * seconds)) ai = { ...ai, strafeDirection: -ai.strafeDirection }
+        // Circle the player, drifting in or out to hold the preferred range
+        const preferred = enemy.detectionRange * movement.strafeRange
+        const correction = Math.max(-1, Math.min(1, (distance - preferred) / preferred))
+        desiredX = (-toY * ai.strafeDirection + toX * correction) * speed
+        desiredY = (toX * ai.strafeDirection + toY * correction) * speed
+        break
+      }
+      case 'flee':
+        desiredX = -toX * speed
+        desiredY = -toY * speed
+        break
+    }
+
+    // Flankers close in on their assigned bearing instead of straight at the player
+    if (enemy.squad?.role === 'flanker' && (mode === 'pursue' || mode === 'strafe')) {
+      const reach = enemy.detectionRange * movement.strafeRange
+      const dx = target.x + Math.cos(enemy.squad.flankAngle) * reach - enemy.x
+      const dy = target.y + Math.sin(enemy.squad.flankAngle) * reach - enemy.y
+      const gap = Math.max(1, Math.hypot(dx, dy))
+      const pace = speed * Math.min(1, gap / FLANK_ARRIVE)
+      desiredX = (dx / gap) * pace
+      desiredY = (dy / gap) * pace
+    }
+
+    const push = separation(enemy, enemies)
+    desiredX += push.x
+    desiredY += push.y
+
+    // Accelerate towards the desired velocity rather than snapping to it
+    const dvx = desiredX - enemy.vx
+    const dvy = desiredY - enemy.vy
+    const change = Math.hypot(dvx, dvy)
+    const limit = ACCELERATION * seconds
+    const scale = change > limit ? limit / change : 1
+    let vx = enemy.vx + dvx * scale
+    let vy = enemy.vy + dvy * scale
+
+    const moved = { x: enemy.x + vx * seconds, y: enemy.y + vy * seconds }
+    const next = clampToArena(moved.x, moved.y, enemy.size)
+    // Walls stop enemies; idle ones turn around and circling ones change direction
+    if (next.x !== moved.x || next.y !== moved.y) {
+      if (next.x !== moved.x) vx = 0
+      if (next.y !== moved.y) vy = 0
+      if (mode === 'idle') ai = { ...ai, wanderAngle: ai.wanderAngle + Math.PI }
+      if (mode === 'strafe') ai = { ...ai, strafeDirection: -ai.strafeDirection }
+    }
+
+    // Each enemy's own drift phase, so waves don't bob along w in unison
+    const w = enemy.w + Math.sin(enemy.clock * 0.002 + idHash(enemy.id)) * W_DRIFT_SPEED * seconds
+    return { ...enemy, x: next.x, y: next.y, w, vx, vy, ai }
+  })
+}
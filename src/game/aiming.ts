@@ -0,0 +1,35 @@
+import { ARCHETYPES, type ArchetypeId } from './archetypes'
+import type { Enemy, PlayerHitbox } from './types'
+
+const LEAD_PER_LEVEL = 0.1 // later levels sharpen every enemy that leads at all
+
+// How far ahead of a moving player an archetype aims on `level`: 0 shoots where the player is,
+// 1 shoots exactly where they will be if they keep going. Grunts never lead; snipers always lead fully.
+export function leadFor(archetype: ArchetypeId, level: number) {
+  const base = ARCHETYPES[archetype].lead
+  return base === 0 ? 0 : Math.min(1, base + (level - 1) * LEAD_PER_LEVEL)
+}
+
+// Time until a shot at `speed` from (x, y) meets a target moving at (vx, vy), or null if it never can
+function interceptTime(dx: number, dy: number, vx: number, vy: number, speed: number) {
+  const a = vx * vx + vy * vy - speed * speed
+  const b = 2 * (dx * vx + dy * vy)
+  const c = dx * dx + dy * dy
+
+  if (Math.abs(a) < 1e-6) return b < 0 ? -c / b : null
+  const discriminant = b * b - 4 * a * c
+  if (discriminant < 0) return null
+  const root = Math.sqrt(discriminant)
+  const times = [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter(t => t > 0)
+  return times.length > 0 ? Math.min(...times) : null
+}
+
+// Angle to fire at so a shot travelling `speed` pixels per (world) second leads the target
+// by the enemy's `lead` fraction of the full intercept
+export function aimAngle(enemy: Enemy, target: PlayerHitbox, vx: number, vy: number, speed: number) {
+  const dx = target.x - enemy.x
+  const dy = target.y - enemy.y
+  const t = enemy.lead > 0 ? interceptTime(dx, dy, vx, vy, speed) : null
+  if (t === null) return Math.atan2(dy, dx)
+  return Math.atan2(dy + vy * t * enemy.lead, dx + vx * t * enemy.lead)
+}
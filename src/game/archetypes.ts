@@ -0,0 +1,210 @@
+import type { Volley } from './patterns'
+import type { Enemy } from './types'
+
+export type ArchetypeId = 'grunt' | 'phaser' | 'sniper' | 'swarmer' | 'shielded' | 'splitter' | 'healer' | 'boss'
+
+type Range = [number, number] // rolled uniformly per enemy (or per shot)
+
+export interface Movement {
+  speed: number // multiplier on the AI's base speeds
+  strafeRange: number // fraction of detectionRange the enemy likes to circle at
+  fleeHealth: number // fraction of max health below which it runs; 0 never runs
+}
+
+export interface EnemyShot {
+  speed: Range // pixels per second
+  damage: Range
+  size: Range
+}
+
+export interface Archetype {
+  id: ArchetypeId
+  name: string
+  type: Enemy['type'] // which phase rules and time resistance apply
+  color: string
+  health: number
+  shield: number // regenerating damage buffer on top of health
+  size: Range
+  shootCooldown: Range // ms
+  accuracy: Range
+  detectionRange: Range
+  lead: number // see aiming.ts
+  movement: Movement
+  projectile: EnemyShot
+  script: Volley[] // looped in order, see patterns.ts
+  score: number
+  split?: { into: ArchetypeId; count: number } // spawned where it dies
+  heal?: { rate: number; range: number } // health per second given to allies in range
+}
+
+const STANDARD_SHOT: EnemyShot = { speed: [187.5, 312.5], damage: [15, 25], size: [3, 5] }
+const SINGLE: Volley[] = [{ pattern: 'single', count: 1, spread: 0 }]
+const STANDARD_MOVEMENT: Movement = { speed: 1, strafeRange: 0.6, fleeHealth: 0.3 }
+
+export const ARCHETYPES: Record<ArchetypeId, Archetype> = {
+  grunt: {
+    id: 'grunt',
+    name: 'Grunt',
+    type: 'normal',
+    color: '#ff3300',
+    health: 50,
+    shield: 0,
+    size: [20, 30],
+    shootCooldown: [1000, 3000],
+    accuracy: [0.3, 0.7],
+    detectionRange: [300, 500],
+    lead: 0,
+    movement: STANDARD_MOVEMENT,
+    projectile: STANDARD_SHOT,
+    script: SINGLE,
+    score: 100
+  },
+  phaser: {
+    id: 'phaser',
+    name: 'Phaser',
+    type: 'dimensional',
+    color: '#ff0066',
+    health: 50,
+    shield: 0,
+    size: [20, 30],
+    shootCooldown: [1000, 3000],
+    accuracy: [0.3, 0.7],
+    detectionRange: [300, 500],
+    lead: 0.4,
+    movement: STANDARD_MOVEMENT,
+    projectile: STANDARD_SHOT,
+    script: [{ pattern: 'single', count: 1, spread: 0, motion: { wAmplitude: 10, wFrequency: 0.8 } }],
+    score: 150
+  },
+  sniper: {
+    id: 'sniper',
+    name: 'Sniper',
+    type: 'normal',
+    color: '#22d3ee',
+    health: 35,
+    shield: 0,
+    size: [18, 22],
+    shootCooldown: [3000, 4000],
+    accuracy: [0.9, 0.95],
+    detectionRange: [650, 800],
+    lead: 1,
+    movement: { speed: 0.8, strafeRange: 0.8, fleeHealth: 0.5 },
+    projectile: { speed: [500, 550], damage: [30, 35], size: [2, 3] },
+    script: SINGLE,
+    score: 150
+  },
+  swarmer: {
+    id: 'swarmer',
+    name: 'Swarmer',
+    type: 'normal',
+    color: '#fb923c',
+    health: 15,
+    shield: 0,
+    size: [10, 14],
+    shootCooldown: [1500, 2500],
+    accuracy: [0.2, 0.4],
+    detectionRange: [350, 450],
+    lead: 0,
+    movement: { speed: 1.6, strafeRange: 0.25, fleeHealth: 0 },
+    projectile: { speed: [250, 300], damage: [5, 8], size: [2, 3] },
+    script: SINGLE,
+    score: 40
+  },
+  // Elite: cycles through two fans and a triple stream
+  shielded: {
+    id: 'shielded',
+    name: 'Bulwark',
+    type: 'normal',
+    color: '#60a5fa',
+    health: 60,
+    shield: 60,
+    size: [26, 32],
+    shootCooldown: [2000, 3000],
+    accuracy: [0.4, 0.6],
+    detectionRange: [300, 450],
+    lead: 0.2,
+    movement: { speed: 0.7, strafeRange: 0.5, fleeHealth: 0.2 },
+    projectile: { speed: [200, 260], damage: [10, 15], size: [3, 4] },
+    script: [
+      { pattern: 'fan', count: 3, spread: 0.4, wait: 1000 },
+      { pattern: 'fan', count: 5, spread: 0.9, wait: 1400 },
+      { pattern: 'aimedTriple', count: 3, spread: 0 }
+    ],
+    score: 200
+  },
+  splitter: {
+    id: 'splitter',
+    name: 'Splitter',
+    type: 'normal',
+    color: '#a3e635',
+    health: 70,
+    shield: 0,
+    size: [28, 34],
+    shootCooldown: [2000, 3000],
+    accuracy: [0.3, 0.5],
+    detectionRange: [300, 450],
+    lead: 0,
+    movement: { speed: 0.9, strafeRange: 0.5, fleeHealth: 0 },
+    projectile: STANDARD_SHOT,
+    script: [
+      { pattern: 'single', count: 1, spread: 0, wait: 1200 },
+      { pattern: 'mines', count: 3, spread: 0, speed: 200 }
+    ],
+    score: 120,
+    split: { into: 'swarmer', count: 3 }
+  },
+  healer: {
+    id: 'healer',
+    name: 'Mender',
+    type: 'dimensional',
+    color: '#f472b6',
+    health: 40,
+    shield: 0,
+    size: [20, 24],
+    shootCooldown: [3000, 4000],
+    accuracy: [0.3, 0.5],
+    detectionRange: [400, 500],
+    lead: 0,
+    movement: { speed: 1, strafeRange: 0.8, fleeHealth: 0.5 },
+    projectile: STANDARD_SHOT,
+    script: SINGLE,
+    score: 180,
+    heal: { rate: 8, range: 180 }
+  },
+  // Bosses are built by boss.ts, which scales health with the level on top of this
+  // and fires each phase's own script alongside these aimed shots
+  boss: {
+    id: 'boss',
+    name: 'Boss',
+    type: 'boss',
+    color: '#ffcc00',
+    health: 400,
+    shield: 0,
+    size: [45, 45],
+    shootCooldown: [1200, 1200],
+    accuracy: [0.8, 0.8],
+    detectionRange: [700, 700],
+    lead: 0.6,
+    movement: { speed: 1, strafeRange: 0.6, fleeHealth: 0 },
+    projectile: STANDARD_SHOT,
+    script: SINGLE,
+    score: 100
+  }
+}
+
+export interface ArchetypeTable {
+  fromLevel: number
+  weights: Partial<Record<ArchetypeId, number>>
+}
+
+// The last table whose fromLevel has been reached applies
+export const ARCHETYPE_TABLES: ArchetypeTable[] = [
+  { fromLevel: 1, weights: { grunt: 8, phaser: 2 } },
+  { fromLevel: 2, weights: { grunt: 6, phaser: 2, swarmer: 3, sniper: 1 } },
+  { fromLevel: 4, weights: { grunt: 4, phaser: 3, swarmer: 3, sniper: 2, shielded: 2, splitter: 1 } },
+  { fromLevel: 5, weights: { grunt: 3, phaser: 3, swarmer: 3, sniper: 2, shielded: 2, splitter: 2, healer: 1 } },
+  { fromLevel: 7, weights: { grunt: 2, phaser: 3, swarmer: 4, sniper: 3, shielded: 3, splitter: 2, healer: 2 } }
+]
+
+export const archetypeTable = (level: number) =>
+  ARCHETYPE_TABLES.reduce((table, next) => next.fromLevel <= level ? next : table, ARCHETYPE_TABLES[0])
@@ -0,0 +1,172 @@
+import { ARCHETYPES } from './archetypes'
+import { createEnemy, spawnPoint } from './enemies'
+import { distanceToHitbox } from './hitbox'
+import { advanceVolley, createVolleyState, currentVolley, fireVolley, type Volley } from './patterns'
+import type { Rng } from './rng'
+import type {
+  Enemy,
+  EnemyProjectile,
+  GameEvent,
+  Player,
+  PlayerHitbox,
+  VisualEffect
+} from './types'
+
+export const BOSS_LEVEL_INTERVAL = 3 // every third level is a boss fight
+
+const BOSS_NAMES = ['Tesseract Warden', 'Hyperion Prime', 'The Null Phase']
+const BOSS_KILL_BONUS = 1000
+const MAX_MINIONS = 4
+
+export interface BossPhase {
+  name: string
+  threshold: number // starts once health drops to this fraction of max
+  script: Volley[] // fired on top of the boss's aimed shots, looping
+  hopInterval: number | null // ms between w-phase hops
+  summonInterval: number | null // ms between minion waves
+}
+
+export const BOSS_PHASES: BossPhase[] = [
+  {
+    name: 'Barrage',
+    threshold: 1,
+    script: [{ pattern: 'ring', count: 12, spread: 0.26, speed: 140, motion: { acceleration: 60 }, wait: 2500 }],
+    hopInterval: null,
+    summonInterval: null
+  },
+  {
+    name: 'Phase Hop',
+    threshold: 0.66,
+    script: [
+      { pattern: 'spiral', count: 3, spread: 0.35, speed: 170, motion: { curve: 0.5 }, repeat: 8, wait: 180 },
+      { pattern: 'ring', count: 10, spread: 0.3, speed: 180, motion: { wAmplitude: 15, wFrequency: 0.5 }, wait: 2500 }
+    ],
+    hopInterval: 2000,
+    summonInterval: null
+  },
+  {
+    name: 'Summoner',
+    threshold: 0.33,
+    script: [
+      { pattern: 'ring', count: 16, spread: 0.2, speed: 190, wait: 900 },
+      { pattern: 'aimedTriple', count: 3, spread: 0, speed: 240, motion: { homing: 1.2 }, wait: 900 },
+      { pattern: 'mines', count: 5, spread: 0, speed: 220, wait: 2200 }
+    ],
+    hopInterval: 3000,
+    summonInterval: 6000
+  }
+]
+
+const SCRIPT_INDEX = 100 // keeps script projectile ids clear of the boss's aimed shots
+
+export const isBossLevel = (level: number) => level % BOSS_LEVEL_INTERVAL === 0
+
+export const bossScoreBonus = (level: number) => BOSS_KILL_BONUS * Math.ceil(level / BOSS_LEVEL_INTERVAL)
+
+export function bossName(level: number) {
+  return BOSS_NAMES[(Math.ceil(level / BOSS_LEVEL_INTERVAL) - 1) % BOSS_NAMES.length]
+}
+
+// Index into BOSS_PHASES for the enemy's current health
+export function bossPhaseIndex(enemy: Enemy) {
+  const fraction = enemy.health / enemy.maxHealth
+  let index = 0
+  BOSS_PHASES.forEach((phase, i) => {
+    if (fraction <= phase.threshold) index = i
+  })
+  return index
+}
+
+export function createBoss(rng: Rng, level: number, player: Player): Enemy {
+  const { x, y } = spawnPoint(rng, player)
+  const enemy = createEnemy(rng, 'boss', `boss-${level}`, level, x, y, rng.range(-20, 20))
+  const health = enemy.health + level * 100
+
+  return {
+    ...enemy,
+    z: 0,
+    health,
+    maxHealth: health,
+    boss: {
+      name: bossName(level),
+      phase: 0,
+      lastBurst: 0,
+      lastHop: 0,
+      lastSummon: 0,
+      hoppedAway: false,
+      minionsSummoned: 0,
+      volley: createVolleyState(BOSS_PHASES[0].script[0].wait ?? enemy.shootCooldown)
+    }
+  }
+}
+
+// Minions are swarmers summoned into a fight already underway
+function createMinion(rng: Rng, boss: Enemy, index: number): Enemy {
+  const angle = rng.range(0, Math.PI * 2)
+  const x = boss.x + Math.cos(angle) * (boss.size + 30)
+  const y = boss.y + Math.sin(angle) * (boss.size + 30)
+  const minion = createEnemy(rng, 'swarmer', `${boss.id}-minion-${index}`, 1, x, y, boss.w)
+  return { ...minion, z: boss.z, ai: { ...minion.ai, mode: 'pursue' } }
+}
+
+// Phase changes, scripted volleys, w-phase hops and minion waves for every living boss.
+// Timers run on the boss's own clock; `time` only stamps the visual effects.
+export function updateBosses(
+  enemies: Enemy[],
+  target: PlayerHitbox,
+  time: number,
+  rng: Rng,
+  events: GameEvent[],
+  effects: VisualEffect[]
+) {
+  const projectiles: EnemyProjectile[] = []
+  const minions: Enemy[] = []
+
+  const updated = enemies.map(enemy => {
+    if (!enemy.isActive || !enemy.boss) return enemy
+
+    let boss = enemy.boss
+    let { w } = enemy
+    const { clock } = enemy
+
+    const phaseIndex = Math.max(boss.phase, bossPhaseIndex(enemy))
+    if (phaseIndex !== boss.phase) {
+      // The new script starts from the top, keeping whatever wait the last volley set
+      boss = { ...boss, phase: phaseIndex, volley: createVolleyState(boss.volley.wait) }
+      events.push({ type: 'bossPhaseChanged', enemyId: enemy.id, phase: phaseIndex })
+    }
+    const phase = BOSS_PHASES[phaseIndex]
+    const engaged = distanceToHitbox(target, enemy.x, enemy.y) <= enemy.detectionRange
+
+    if (engaged && clock - boss.lastBurst >= boss.volley.wait) {
+      const volley = currentVolley(phase.script, boss.volley)
+      const aim = Math.atan2(target.y - enemy.y, target.x - enemy.x)
+      const speed = volley.speed ?? rng.range(...ARCHETYPES.boss.projectile.speed)
+      projectiles.push(...fireVolley(enemy, volley, boss.volley.spin, aim, speed, rng, SCRIPT_INDEX))
+      boss = { ...boss, lastBurst: clock, volley: advanceVolley(phase.script, boss.volley, enemy.shootCooldown) }
+    }
+
+    // Alternate between hiding far out of phase and snapping back into the player's slice
+    if (phase.hopInterval !== null && clock - boss.lastHop >= phase.hopInterval) {
+      const hoppedAway = !boss.hoppedAway
+      w = hoppedAway
+        ? target.w + (rng.chance(0.5) ? 1 : -1) * rng.range(50, 70)
+        : target.w + rng.range(-5, 5)
+      effects.push({ type: 'phaseRipple', x: enemy.x, y: enemy.y, createdAt: time, duration: 400 })
+      boss = { ...boss, lastHop: clock, hoppedAway }
+    }
+
+    if (phase.summonInterval !== null && clock - boss.lastSummon >= phase.summonInterval) {
+      const alive = enemies.filter(e => e.isActive && e.id.startsWith(`${enemy.id}-minion-`)).length
+      const count = Math.min(2, MAX_MINIONS - alive)
+      for (let i = 0; i < count; i++) {
+        minions.push(createMinion(rng, enemy, boss.minionsSummoned + i))
+      }
+      boss = { ...boss, lastSummon: clock, minionsSummoned: boss.minionsSummoned + count }
+    }
+
+    return { ...enemy, w, boss }
+  })
+
+  return { enemies: [...updated, ...minions], projectiles }
+}
@@ -0,0 +1,66 @@
+import type { Player } from './types'
+
+export type BuffId = 'damageBoost' | 'rapidFire' | 'shield' | 'phaseSight' | 'infiniteAmmo'
+
+export interface Buff {
+  id: BuffId
+  name: string
+  label: string // single character for pickups and HUD icons
+  color: string
+  duration: number // ms
+  stacks: boolean // picking it up again adds time (up to maxDuration) instead of refreshing it
+  maxDuration: number
+}
+
+export const BUFFS: Record<BuffId, Buff> = {
+  damageBoost: { id: 'damageBoost', name: 'Damage Boost', label: 'D', color: '#f87171', duration: 10000, stacks: true, maxDuration: 25000 },
+  rapidFire: { id: 'rapidFire', name: 'Rapid Fire', label: 'R', color: '#facc15', duration: 8000, stacks: false, maxDuration: 8000 },
+  shield: { id: 'shield', name: 'Shield', label: 'S', color: '#38bdf8', duration: 15000, stacks: false, maxDuration: 15000 },
+  phaseSight: { id: 'phaseSight', name: 'Phase Sight', label: 'W', color: '#e879f9', duration: 12000, stacks: true, maxDuration: 30000 },
+  infiniteAmmo: { id: 'infiniteAmmo', name: 'Infinite Ammo', label: '∞', color: '#a3e635', duration: 8000, stacks: false, maxDuration: 8000 }
+}
+
+export const BUFF_IDS = Object.keys(BUFFS) as BuffId[]
+
+const DAMAGE_BOOST = 1.5
+const RAPID_FIRE = 2 // fire rate multiplier
+const SHIELD_CHARGE = 60 // projectile damage the shield soaks up before it breaks
+
+export const hasBuff = (player: Player, id: BuffId) => player.buffs[id] !== undefined
+
+export const damageMultiplier = (player: Player) => hasBuff(player, 'damageBoost') ? DAMAGE_BOOST : 1
+
+export const fireRateMultiplier = (player: Player) => hasBuff(player, 'rapidFire') ? RAPID_FIRE : 1
+
+export function applyBuff(player: Player, id: BuffId, time: number): Player {
+  const buff = BUFFS[id]
+  const active = player.buffs[id]
+  const endsAt = active && buff.stacks
+    ? Math.min(time + buff.maxDuration, active.endsAt + buff.duration)
+    : time + buff.duration
+  const charge = id === 'shield' ? SHIELD_CHARGE : 0
+  return { ...player, buffs: { ...player.buffs, [id]: { endsAt, duration: endsAt - time, charge } } }
+}
+
+export function expireBuffs(player: Player, time: number): Player {
+  const expired = BUFF_IDS.filter(id => (player.buffs[id]?.endsAt ?? Infinity) <= time)
+  if (expired.length === 0) return player
+  const buffs = { ...player.buffs }
+  expired.forEach(id => delete buffs[id])
+  return { ...player, buffs }
+}
+
+// Let an active shield soak up incoming damage; it breaks once its charge runs out
+export function absorbDamage(player: Player, damage: number): { player: Player; damage: number } {
+  const shield = player.buffs.shield
+  if (!shield || damage <= 0) return { player, damage }
+
+  const absorbed = Math.min(shield.charge, damage)
+  const buffs = { ...player.buffs }
+  if (shield.charge - absorbed > 0) {
+    buffs.shield = { ...shield, charge: shield.charge - absorbed }
+  } else {
+    delete buffs.shield
+  }
+  return { player: { ...player, buffs }, damage: damage - absorbed }
+}
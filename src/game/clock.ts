@@ -0,0 +1,44 @@
+// Game-time clock. Only real time that passes while nothing holds the clock
+// paused counts; bullet time is applied inside the simulation, not here. The
+// game loop feeds the simulation from it, so enemy cooldowns, projectile
+// lifetimes, reloads and flash effects all freeze during pause, menus and
+// hidden tabs.
+
+export type PauseReason = 'menu' | 'paused' | 'gameOver' | 'hidden'
+
+export interface GameClock {
+  now(): number // game milliseconds
+  tick(frameTime: number): number // real ms that count for this frame
+  pause(reason: PauseReason): void
+  resume(reason: PauseReason): void
+}
+
+// Never hand out more than this in one frame, even if the browser stalls
+const MAX_FRAME_MS = 250
+
+export function createGameClock(): GameClock {
+  const reasons = new Set<PauseReason>()
+  let time = 0
+  let lastFrame: number | null = null
+
+  return {
+    now: () => time,
+    tick(frameTime) {
+      const delta = lastFrame === null ? 0 : frameTime - lastFrame
+      lastFrame = frameTime
+      if (reasons.size > 0) return 0
+
+      const counted = Math.max(0, Math.min(delta, MAX_FRAME_MS))
+      time += counted
+      return counted
+    },
+    pause(reason) {
+      reasons.add(reason)
+    },
+    resume(reason) {
+      reasons.delete(reason)
+      // Don't count the time spent paused as one long frame
+      lastFrame = null
+    }
+  }
+}
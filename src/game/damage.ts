@@ -0,0 +1,33 @@
+import { ARCHETYPES } from './archetypes'
+import { bossScoreBonus } from './boss'
+import type { Enemy, GameEvent } from './types'
+
+// Deal `damage` to one enemy, shield first, reporting kills (and boss bonuses earned on `level`).
+// Returns the updated list and the score the player earned.
+export function damageEnemy(
+  enemies: Enemy[],
+  id: string,
+  damage: number,
+  level: number,
+  events: GameEvent[]
+): { enemies: Enemy[]; score: number } {
+  const target = enemies.find(enemy => enemy.id === id)
+  if (!target?.isActive) return { enemies, score: 0 }
+
+  const absorbed = Math.min(target.shield, damage)
+  const health = target.health - (damage - absorbed)
+  let score = 0
+  let damaged: Enemy = { ...target, shield: target.shield - absorbed, health, lastDamaged: target.clock }
+  if (health <= 0) {
+    score += ARCHETYPES[target.archetype].score
+    events.push({ type: 'enemyKilled', enemyId: id })
+    if (target.boss) {
+      const bonus = bossScoreBonus(level)
+      score += bonus
+      events.push({ type: 'bossDefeated', enemyId: id, bonus })
+    }
+    damaged = { ...target, health: 0, isActive: false }
+  }
+
+  return { enemies: enemies.map(enemy => enemy.id === id ? damaged : enemy), score }
+}
@@ -0,0 +1,40 @@
+import { absorbDamage } from './buffs'
+import type { GameEvent, Player, VisualEffect } from './types'
+
+export const MAX_SHIELD = 50
+export const STARTING_ARMOR = 0.2 // fraction of damage armor takes off what reaches health
+
+const SHIELD_REGEN_DELAY = 3000 // ms since the last hit before the shield recharges
+const SHIELD_REGEN_RATE = 20 // per second
+
+// Damage passes through layers: a shield power-up, then the regenerating shield,
+// then armor, which shaves a percentage off whatever is left before it hits health
+export function damagePlayer(
+  player: Player,
+  damage: number,
+  time: number,
+  events: GameEvent[],
+  effects: VisualEffect[]
+): Player {
+  const buffed = absorbDamage(player, damage)
+  player = buffed.player
+  if (buffed.damage <= 0) return player
+
+  const absorbed = Math.min(player.shield, buffed.damage)
+  const shield = player.shield - absorbed
+  if (absorbed > 0 && shield === 0) {
+    events.push({ type: 'shieldBroken' })
+    effects.push({ type: 'shieldBreak', x: player.x, y: player.y, createdAt: time, duration: 500 })
+  }
+
+  const healthDamage = (buffed.damage - absorbed) * (1 - player.armor)
+  const health = Math.max(0, player.health - healthDamage)
+  events.push({ type: 'playerHit', damage: buffed.damage })
+  return { ...player, shield, health, lastDamaged: time }
+}
+
+// The shield refills once the player has gone a while without taking damage
+export function regenerateShield(player: Player, time: number, seconds: number): Player {
+  if (player.shield >= player.maxShield || time - player.lastDamaged < SHIELD_REGEN_DELAY) return player
+  return { ...player, shield: Math.min(player.maxShield, player.shield + SHIELD_REGEN_RATE * seconds) }
+}
@@ -0,0 +1,71 @@
+import { createAi } from './ai'
+import { leadFor } from './aiming'
+import { ARCHETYPES, archetypeTable, type ArchetypeId } from './archetypes'
+import { createEvasion } from './evasion'
+import { createVolleyState } from './patterns'
+import { pickWeighted, type Rng } from './rng'
+import { TIME_RESISTANCE } from './timewarp'
+import type { Enemy, Player, Point } from './types'
+import { ARENA } from './world'
+
+const ENEMY_SPAWN_CLEARANCE = 250 // keep new enemies at least this far from the player
+
+// Build one enemy of `archetype` at a point, rolling its stats from the archetype's ranges
+export function createEnemy(rng: Rng, archetype: ArchetypeId, id: string, level: number, x: number, y: number, w: number): Enemy {
+  const spec = ARCHETYPES[archetype]
+  const roll = ([min, max]: [number, number]) => rng.range(min, max)
+  const shootCooldown = roll(spec.shootCooldown)
+  return {
+    id,
+    x,
+    y,
+    z: rng.range(-100, 100),
+    w,
+    vx: 0,
+    vy: 0,
+    health: spec.health,
+    maxHealth: spec.health,
+    shield: spec.shield,
+    maxShield: spec.shield,
+    archetype,
+    type: spec.type,
+    color: spec.color,
+    size: roll(spec.size),
+    isActive: true,
+    clock: 0,
+    timeResistance: TIME_RESISTANCE[spec.type],
+    lastShot: 0,
+    lastDamaged: 0,
+    shootCooldown,
+    accuracy: roll(spec.accuracy),
+    lead: leadFor(archetype, level),
+    detectionRange: roll(spec.detectionRange),
+    volley: createVolleyState(shootCooldown),
+    ai: createAi(rng),
+    squad: null,
+    evasion: spec.type === 'dimensional' ? createEvasion(w) : undefined
+  }
+}
+
+// Generate a level's enemies, drawing archetypes from its weighted table
+export function generateEnemies(rng: Rng, count: number, level: number, player: Player): Enemy[] {
+  const { weights } = archetypeTable(level)
+  return Array.from({ length: count }, (_, i) => {
+    const archetype = pickWeighted(rng, weights)
+    const { x, y } = spawnPoint(rng, player)
+    return createEnemy(rng, archetype, `enemy-${level}-${i}`, level, x, y, rng.range(-50, 50))
+  })
+}
+
+// Random point in the arena, away from the player (gives up after a few tries)
+export function spawnPoint(rng: Rng, player: Player): Point {
+  let point = { x: 0, y: 0 }
+  for (let attempt = 0; attempt < 10; attempt++) {
+    point = {
+      x: rng.range(ARENA.minX + 50, ARENA.maxX - 50),
+      y: rng.range(ARENA.minY + 50, ARENA.maxY - 50)
+    }
+    if (Math.hypot(point.x - player.x, point.y - player.y) >= ENEMY_SPAWN_CLEARANCE) break
+  }
+  return point
+}
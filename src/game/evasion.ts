@@ -0,0 +1,79 @@
+import type { Rng } from './rng'
+import { scaledDt } from './timewarp'
+import type { Enemy, EvasionState, PlayerHitbox, Point, VisualEffect } from './types'
+
+const TRACK_TIME_TO_DODGE = 400 // ms the crosshair has to stay on them
+const DODGE_COOLDOWN = 1500
+const DODGE_DISTANCE = 35 // w units per dodge
+const CLOAK_DISTANCE = 70 // far enough from the player's slice to vanish entirely
+const CLOAK_TIME = 700 // ms spent fully out of phase after each shot
+const PHASE_SPEED = 180 // w units per second while shifting
+
+export const DIMENSIONAL_SHOT_W_DRIFT = 30 // max w units per second their projectiles drift
+
+export function createEvasion(w: number): EvasionState {
+  return {
+    trackedFor: 0,
+    lastDodge: 0,
+    targetW: w,
+    homeW: w,
+    cloakedUntil: 0
+  }
+}
+
+// Whether a dodge is still playing out; until then its homeW belongs to the dodge
+export const isDodging = (enemy: Enemy) =>
+  !!enemy.evasion && enemy.evasion.lastDodge > 0 && enemy.clock - enemy.evasion.lastDodge < DODGE_COOLDOWN
+
+// Which way along w leads away from the player's slice
+const awayFrom = (w: number, playerW: number, rng: Rng) =>
+  w === playerW ? (rng.chance(0.5) ? 1 : -1) : Math.sign(w - playerW)
+
+// Dimensional enemies slip along w when the crosshair lingers on them or they get hit,
+// and hide fully out of phase for a moment after every shot
+export function updateEvasion(
+  enemies: Enemy[],
+  aim: Point,
+  target: PlayerHitbox,
+  time: number,
+  dt: number,
+  timeWarp: number,
+  rng: Rng,
+  effects: VisualEffect[]
+): Enemy[] {
+  return enemies.map(enemy => {
+    if (!enemy.isActive || !enemy.evasion) return enemy
+
+    let evasion = enemy.evasion
+    const { clock } = enemy
+    const seconds = scaledDt(dt, timeWarp, enemy.timeResistance) / 1000
+    const cloaked = evasion.cloakedUntil > 0
+    const tracked = Math.hypot(aim.x - enemy.x, aim.y - enemy.y) < enemy.size
+    const trackedFor = tracked ? evasion.trackedFor + seconds * 1000 : 0
+    evasion = { ...evasion, trackedFor }
+
+    const wasHit = enemy.lastDamaged > evasion.lastDodge
+    const canDodge = clock - evasion.lastDodge >= DODGE_COOLDOWN
+    if (canDodge && (wasHit || trackedFor >= TRACK_TIME_TO_DODGE)) {
+      // While cloaked, only move where it will come back to
+      const from = cloaked ? evasion.homeW : enemy.w
+      const homeW = from + awayFrom(from, target.w, rng) * DODGE_DISTANCE
+      evasion = { ...evasion, trackedFor: 0, lastDodge: clock, homeW, targetW: cloaked ? evasion.targetW : homeW }
+      effects.push({ type: 'phaseRipple', x: enemy.x, y: enemy.y, createdAt: time, duration: 300 })
+    }
+
+    if (enemy.lastShot === clock) {
+      const cloakW = target.w + awayFrom(enemy.w, target.w, rng) * CLOAK_DISTANCE
+      const homeW = cloaked ? evasion.homeW : evasion.targetW
+      evasion = { ...evasion, homeW, targetW: cloakW, cloakedUntil: clock + CLOAK_TIME }
+    } else if (cloaked && clock >= evasion.cloakedUntil) {
+      evasion = { ...evasion, targetW: evasion.homeW, cloakedUntil: 0 }
+    }
+
+    // Ease towards the target phase instead of teleporting
+    const gap = evasion.targetW - enemy.w
+    const stepW = Math.sign(gap) * Math.min(Math.abs(gap), PHASE_SPEED * seconds)
+
+    return { ...enemy, w: enemy.w + stepW, evasion }
+  })
+}
@@ -0,0 +1,79 @@
+import { damageEnemy } from './damage'
+import type { Enemy, GameEvent, Grenade, Player, Point, VisualEffect } from './types'
+import { clampToArena } from './world'
+
+export const MAX_GRENADES = 5
+export const STARTING_GRENADES = 3
+
+const THROW_RANGE = 450 // farthest landing point from the player
+const THROW_SPEED = 600 // pixels per second across the ground
+const GRAVITY = 1200 // pulls the arc's height back down, pixels per second squared
+const BLAST_RADIUS = 140
+const BLAST_DAMAGE = 120
+const BLAST_W_REACH = 80 // w distance at which the blast fades out entirely
+
+// Lob a grenade so it lands on `aim`, or as far towards it as the throw reaches
+export function createGrenade(player: Player, aim: Point, time: number): Grenade {
+  const dx = aim.x - player.x
+  const dy = aim.y - player.y
+  const distance = Math.hypot(dx, dy)
+  const range = Math.min(distance, THROW_RANGE)
+  const flight = Math.max(0.4, range / THROW_SPEED)
+  const scale = distance > 0 ? range / distance / flight : 0
+
+  return {
+    id: `grenade-${time}`,
+    x: player.x,
+    y: player.y,
+    w: player.w,
+    height: 0,
+    vx: dx * scale,
+    vy: dy * scale,
+    vHeight: (GRAVITY * flight) / 2
+  }
+}
+
+// Full damage at the center, falling off linearly to the edge of the blast and,
+// separately, with distance along w so neighbouring slices catch part of it
+function blastDamage(grenade: Grenade, enemy: Enemy) {
+  const gap = Math.max(0, Math.hypot(enemy.x - grenade.x, enemy.y - grenade.y) - enemy.size)
+  const radial = 1 - gap / BLAST_RADIUS
+  const phase = 1 - Math.abs(enemy.w - grenade.w) / BLAST_W_REACH
+  return radial > 0 && phase > 0 ? BLAST_DAMAGE * radial * phase : 0
+}
+
+// Fly grenades along their arcs and detonate the ones that land
+export function updateGrenades(
+  grenades: Grenade[],
+  enemies: Enemy[],
+  level: number,
+  time: number,
+  seconds: number,
+  events: GameEvent[],
+  effects: VisualEffect[]
+) {
+  const remaining: Grenade[] = []
+  let score = 0
+
+  grenades.forEach(grenade => {
+    const { x, y } = clampToArena(grenade.x + grenade.vx * seconds, grenade.y + grenade.vy * seconds)
+    const vHeight = grenade.vHeight - GRAVITY * seconds
+    const moved = { ...grenade, x, y, vHeight, height: grenade.height + vHeight * seconds }
+
+    if (moved.height > 0) {
+      remaining.push(moved)
+      return
+    }
+
+    enemies.forEach(enemy => {
+      const damage = enemy.isActive ? blastDamage(moved, enemy) : 0
+      if (damage <= 0) return
+      const damaged = damageEnemy(enemies, enemy.id, damage, level, events)
+      enemies = damaged.enemies
+      score += damaged.score
+    })
+    effects.push({ type: 'shockwave', x, y, radius: BLAST_RADIUS, createdAt: time, duration: 500 })
+  })
+
+  return { grenades: remaining, enemies, score }
+}
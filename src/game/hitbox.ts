@@ -0,0 +1,50 @@
+import { isInPhase } from './phase'
+import type { Enemy, Player, PlayerHitbox } from './types'
+
+const PLAYER_RADIUS = 15
+const PLAYER_W_RADIUS = 10
+
+// The player's body in world space. Enemy targeting, detection and projectile
+// collision all resolve against this, never against the crosshair or screen.
+export function getPlayerHitbox(player: Player): PlayerHitbox {
+  return {
+    x: player.x,
+    y: player.y,
+    w: player.w,
+    radius: PLAYER_RADIUS,
+    wRadius: PLAYER_W_RADIUS
+  }
+}
+
+// Enemies are hyperspheres of radius `size`. What the player sees, and can hit,
+// is the cross-section through their slice of w, which is as thick as the
+// weapon's w tolerance: sqrt(r² - Δw²), or 0 once the enemy is out of range.
+export function enemyCrossSection(enemy: Enemy, w: number, wTolerance: number) {
+  const dw = Math.max(0, Math.abs(enemy.w - w) - wTolerance)
+  return dw >= enemy.size ? 0 : Math.sqrt(enemy.size * enemy.size - dw * dw)
+}
+
+// Distance in x/y from a point to the edge of the hitbox, 0 when inside it
+export function distanceToHitbox(hitbox: PlayerHitbox, x: number, y: number) {
+  return Math.max(0, Math.hypot(x - hitbox.x, y - hitbox.y) - hitbox.radius)
+}
+
+// Whether a round body of `radius` at (x, y, w), reaching `wTolerance` along w, touches the hitbox
+export function overlapsHitbox(
+  hitbox: PlayerHitbox,
+  x: number,
+  y: number,
+  w: number,
+  radius: number,
+  wTolerance: number
+) {
+  return Math.hypot(x - hitbox.x, y - hitbox.y) < hitbox.radius + radius &&
+    isInPhase(w, hitbox.w, hitbox.wRadius + wTolerance)
+}
+
+// How far along a ray (unit direction dx, dy) a point sits, and how far off the ray it is
+export function rayApproach(originX: number, originY: number, dx: number, dy: number, x: number, y: number) {
+  const along = (x - originX) * dx + (y - originY) * dy
+  const offset = Math.abs((x - originX) * dy - (y - originY) * dx)
+  return { along, offset }
+}
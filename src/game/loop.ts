@@ -0,0 +1,46 @@
+import type { GameClock } from './clock'
+
+export interface FixedStepLoopOptions {
+  clock: GameClock
+  stepMs: number
+  update: () => void
+  // alpha is how far (0-1) game time has moved past the last update, for interpolation
+  render: (alpha: number) => void
+}
+
+export interface FixedStepLoop {
+  start(): void
+  stop(): void
+}
+
+export function createFixedStepLoop({ clock, stepMs, update, render }: FixedStepLoopOptions): FixedStepLoop {
+  let frame: number | null = null
+  let accumulator = 0
+
+  const tick = (now: number) => {
+    // The clock decides how much of this frame counts: nothing while paused or hidden
+    accumulator += clock.tick(now)
+
+    while (accumulator >= stepMs) {
+      update()
+      accumulator -= stepMs
+    }
+
+    render(accumulator / stepMs)
+    frame = requestAnimationFrame(tick)
+  }
+
+  return {
+    start() {
+      if (frame !== null) return
+      accumulator = 0
+      clock.tick(performance.now())
+      frame = requestAnimationFrame(tick)
+    },
+    stop() {
+      if (frame === null) return
+      cancelAnimationFrame(frame)
+      frame = null
+    }
+  }
+}
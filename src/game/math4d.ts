@@ -0,0 +1,143 @@
+// Small 4D geometry kit: vectors, plane rotations, perspective projection
+// down to 3D and then 2D, and the regular polytopes used for enemy meshes.
+
+export interface Vec4 {
+  x: number
+  y: number
+  z: number
+  w: number
+}
+
+export interface Vec3 {
+  x: number
+  y: number
+  z: number
+}
+
+// Row-major 4x4 matrix
+export type Mat4 = readonly number[]
+
+export interface Polytope {
+  name: string
+  vertices: Vec4[] // normalized to unit circumradius
+  edges: [number, number][]
+}
+
+export const IDENTITY: Mat4 = [
+  1, 0, 0, 0,
+  0, 1, 0, 0,
+  0, 0, 1, 0,
+  0, 0, 0, 1
+]
+
+const AXES = ['x', 'y', 'z', 'w'] as const
+type Axis = typeof AXES[number]
+
+// Rotation within the plane spanned by two axes, leaving the other two fixed
+function planeRotation(a: Axis, b: Axis, angle: number): Mat4 {
+  const m = [...IDENTITY]
+  const i = AXES.indexOf(a)
+  const j = AXES.indexOf(b)
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  m[i * 4 + i] = cos
+  m[i * 4 + j] = -sin
+  m[j * 4 + i] = sin
+  m[j * 4 + j] = cos
+  return m
+}
+
+export const rotationXY = (angle: number) => planeRotation('x', 'y', angle)
+export const rotationXZ = (angle: number) => planeRotation('x', 'z', angle)
+export const rotationXW = (angle: number) => planeRotation('x', 'w', angle)
+export const rotationYW = (angle: number) => planeRotation('y', 'w', angle)
+export const rotationZW = (angle: number) => planeRotation('z', 'w', angle)
+
+export function multiply(a: Mat4, b: Mat4): Mat4 {
+  const m: number[] = []
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 4; col++) {
+      let sum = 0
+      for (let k = 0; k < 4; k++) sum += a[row * 4 + k] * b[k * 4 + col]
+      m.push(sum)
+    }
+  }
+  return m
+}
+
+// Compose rotations, applied right to left like the matrices themselves
+export function compose(...matrices: Mat4[]): Mat4 {
+  return matrices.reduce(multiply, IDENTITY)
+}
+
+export function transform(m: Mat4, v: Vec4): Vec4 {
+  return {
+    x: m[0] * v.x + m[1] * v.y + m[2] * v.z + m[3] * v.w,
+    y: m[4] * v.x + m[5] * v.y + m[6] * v.z + m[7] * v.w,
+    z: m[8] * v.x + m[9] * v.y + m[10] * v.z + m[11] * v.w,
+    w: m[12] * v.x + m[13] * v.y + m[14] * v.z + m[15] * v.w
+  }
+}
+
+export function length4(v: Vec4) {
+  return Math.hypot(v.x, v.y, v.z, v.w)
+}
+
+// Perspective from a 4D eye sitting `distance` out along +w
+export function project4To3(v: Vec4, distance: number): Vec3 {
+  const f = distance / (distance - v.w)
+  return { x: v.x * f, y: v.y * f, z: v.z * f }
+}
+
+// Perspective from a 3D eye sitting `distance` out along +z; depth is kept for shading
+export function project3To2(v: Vec3, distance: number) {
+  const f = distance / (distance - v.z)
+  return { x: v.x * f, y: v.y * f, depth: v.z }
+}
+
+// Connect every pair of vertices at the shortest distance between any two
+function buildPolytope(name: string, raw: Vec4[]): Polytope {
+  const vertices = raw.map(v => {
+    const len = length4(v)
+    return { x: v.x / len, y: v.y / len, z: v.z / len, w: v.w / len }
+  })
+
+  const distance = (a: Vec4, b: Vec4) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z, a.w - b.w)
+  let shortest = Infinity
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      shortest = Math.min(shortest, distance(vertices[i], vertices[j]))
+    }
+  }
+
+  const edges: [number, number][] = []
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      if (distance(vertices[i], vertices[j]) < shortest + 1e-6) edges.push([i, j])
+    }
+  }
+
+  return { name, vertices, edges }
+}
+
+const signs = [-1, 1]
+
+// 16 vertices at (±1, ±1, ±1, ±1), 32 edges
+export const TESSERACT = buildPolytope(
+  'tesseract',
+  signs.flatMap(x => signs.flatMap(y => signs.flatMap(z => signs.map(w => ({ x, y, z, w })))))
+)
+
+// 8 vertices at ±1 on each axis, 24 edges
+export const SIXTEEN_CELL = buildPolytope(
+  '16-cell',
+  AXES.flatMap(axis => signs.map(sign => ({ x: 0, y: 0, z: 0, w: 0, [axis]: sign })))
+)
+
+// 24 vertices at every permutation of (±1, ±1, 0, 0), 96 edges
+export const TWENTY_FOUR_CELL = buildPolytope(
+  '24-cell',
+  AXES.flatMap((a, i) => AXES.slice(i + 1).flatMap(b =>
+    signs.flatMap(sa => signs.map(sb => ({ x: 0, y: 0, z: 0, w: 0, [a]: sa, [b]: sb })))
+  ))
+)
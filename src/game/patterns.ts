@@ -0,0 +1,166 @@
+import { ARCHETYPES } from './archetypes'
+import { DIMENSIONAL_SHOT_W_DRIFT } from './evasion'
+import { ENEMY_PHASE } from './phase'
+import type { Rng } from './rng'
+import type { Enemy, EnemyProjectile, PlayerHitbox, ProjectileMotion, VolleyState } from './types'
+
+export type PatternKind = 'single' | 'fan' | 'ring' | 'spiral' | 'aimedTriple' | 'mines'
+
+// One step of an enemy's script. Regular enemies usually loop a single step;
+// bosses and elites string several together.
+export interface Volley {
+  pattern: PatternKind
+  count: number // projectiles per volley
+  spread: number // radians: a fan's whole arc, or how far rings and spirals turn between volleys
+  speed?: number // pixels per second, instead of the archetype's usual shot speed
+  motion?: Partial<ProjectileMotion>
+  repeat?: number // volleys in a row before the script moves on, default 1
+  wait?: number // ms until the next volley, defaults to the enemy's shootCooldown
+}
+
+export const STRAIGHT: ProjectileMotion = {
+  acceleration: 0,
+  curve: 0,
+  homing: 0,
+  wAmplitude: 0,
+  wFrequency: 0,
+  releaseAfter: 0
+}
+
+const MINE_DELAY = 1200 // default ms before mines launch
+const MINE_RING = 25 // pixels beyond the shooter's edge that mines are laid
+const TRIPLE_STAGGER = 0.15 // each shot of an aimed triple is this much slower than the last
+
+export const createVolleyState = (wait: number): VolleyState => ({ step: 0, repeat: 0, spin: 0, wait })
+
+export const currentVolley = (script: Volley[], state: VolleyState) => script[state.step % script.length]
+
+// One projectile leaving `enemy` at `angle` (radians) and `speed` (pixels per second)
+export function createEnemyProjectile(
+  enemy: Enemy,
+  angle: number,
+  speed: number,
+  rng: Rng,
+  index = 0,
+  motion = STRAIGHT
+): EnemyProjectile {
+  const shot = ARCHETYPES[enemy.archetype].projectile
+  return {
+    id: `proj-${enemy.id}-${enemy.clock}-${index}`,
+    x: enemy.x,
+    y: enemy.y,
+    z: enemy.z,
+    w: enemy.w,
+    vx: Math.cos(angle) * speed,
+    vy: Math.sin(angle) * speed,
+    // Dimensional shots wander across phases mid-flight
+    vw: enemy.type === 'dimensional' ? rng.range(-1, 1) * DIMENSIONAL_SHOT_W_DRIFT : 0,
+    damage: rng.range(...shot.damage),
+    color: enemy.color,
+    size: rng.range(...shot.size),
+    wTolerance: ENEMY_PHASE[enemy.type].shotWTolerance,
+    timeResistance: enemy.timeResistance,
+    age: 0,
+    motion
+  }
+}
+
+// Heading, speed multiplier and distance from the shooter's center for each projectile
+function emissions(volley: Volley, aim: number, spin: number) {
+  const count = volley.pattern === 'single' ? 1 : volley.count
+  const around = (i: number) => spin + (i / count) * Math.PI * 2
+  return Array.from({ length: count }, (_, i) => {
+    switch (volley.pattern) {
+      case 'single':
+        return { angle: aim, speedScale: 1, offset: 0 }
+      case 'fan':
+        return { angle: aim + (count > 1 ? (i / (count - 1) - 0.5) * volley.spread : 0), speedScale: 1, offset: 0 }
+      case 'aimedTriple':
+        // A quick stream down the same line rather than a spread
+        return { angle: aim, speedScale: 1 - i * TRIPLE_STAGGER, offset: 0 }
+      case 'ring':
+        return { angle: aim + around(i), speedScale: 1, offset: 0 }
+      case 'spiral':
+        return { angle: around(i), speedScale: 1, offset: 0 }
+      case 'mines':
+        return { angle: around(i), speedScale: 1, offset: MINE_RING }
+    }
+  })
+}
+
+// Every projectile of one volley. `aim` is where the enemy wants to hit (aimed patterns
+// centre on it) and `spin` is how far the script has rotated rings and spirals so far.
+export function fireVolley(
+  enemy: Enemy,
+  volley: Volley,
+  spin: number,
+  aim: number,
+  speed: number,
+  rng: Rng,
+  indexBase = 0
+): EnemyProjectile[] {
+  const motion: ProjectileMotion = {
+    ...STRAIGHT,
+    releaseAfter: volley.pattern === 'mines' ? MINE_DELAY : 0,
+    ...volley.motion
+  }
+  return emissions(volley, aim, spin).map((emission, i) => {
+    const proj = createEnemyProjectile(enemy, emission.angle, speed * emission.speedScale, rng, indexBase + i, motion)
+    if (emission.offset === 0) return proj
+    const distance = enemy.size + emission.offset
+    return { ...proj, x: proj.x + Math.cos(emission.angle) * distance, y: proj.y + Math.sin(emission.angle) * distance }
+  })
+}
+
+// Move the script on after a volley: repeat the step, or go to the next one, looping at the end
+export function advanceVolley(script: Volley[], state: VolleyState, fallbackWait: number): VolleyState {
+  const volley = currentVolley(script, state)
+  const spin = volley.pattern === 'ring' || volley.pattern === 'spiral' ? state.spin + volley.spread : state.spin
+  const wait = volley.wait ?? fallbackWait
+  if (state.repeat + 1 < (volley.repeat ?? 1)) return { ...state, repeat: state.repeat + 1, spin, wait }
+  return { step: (state.step + 1) % script.length, repeat: 0, spin, wait }
+}
+
+// Wrap an angle into [-PI, PI)
+export const wrapAngle = (angle: number) => ((angle + Math.PI) % (Math.PI * 2) + Math.PI * 2) % (Math.PI * 2) - Math.PI
+
+// Advance one projectile by `projDt` of its own ms: mines wait, then launch at the player;
+// everything else accelerates, curves and homes (turn-rate limited) as its motion says
+export function moveEnemyProjectile(proj: EnemyProjectile, target: PlayerHitbox, projDt: number): EnemyProjectile {
+  const { motion } = proj
+  const age = proj.age + projDt
+  if (age < motion.releaseAfter) return { ...proj, age }
+
+  let { vx, vy } = proj
+  if (proj.age < motion.releaseAfter) {
+    const launch = Math.atan2(target.y - proj.y, target.x - proj.x)
+    const speed = Math.hypot(vx, vy)
+    vx = Math.cos(launch) * speed
+    vy = Math.sin(launch) * speed
+  }
+
+  const seconds = projDt / 1000
+  if (motion.acceleration !== 0 || motion.curve !== 0 || motion.homing !== 0) {
+    let heading = Math.atan2(vy, vx) + motion.curve * seconds
+    if (motion.homing > 0) {
+      const turn = wrapAngle(Math.atan2(target.y - proj.y, target.x - proj.x) - heading)
+      const limit = motion.homing * seconds
+      heading += Math.max(-limit, Math.min(limit, turn))
+    }
+    const speed = Math.max(0, Math.hypot(vx, vy) + motion.acceleration * seconds)
+    vx = Math.cos(heading) * speed
+    vy = Math.sin(heading) * speed
+  }
+
+  const phase = (ms: number) => Math.sin((ms / 1000) * motion.wFrequency * Math.PI * 2)
+  const swing = motion.wAmplitude * (phase(age) - phase(proj.age))
+  return {
+    ...proj,
+    x: proj.x + vx * seconds,
+    y: proj.y + vy * seconds,
+    w: proj.w + proj.vw * seconds + swing,
+    vx,
+    vy,
+    age
+  }
+}
@@ -0,0 +1,74 @@
+import type { Enemy, Player, PlayerPhase } from './types'
+
+export interface EnemyPhaseProfile {
+  shotWTolerance: number // how far off-phase its projectiles can still hit
+}
+
+// Phase specialists fire shots that reach across w
+export const ENEMY_PHASE: Record<Enemy['type'], EnemyPhaseProfile> = {
+  normal: { shotWTolerance: 6 },
+  dimensional: { shotWTolerance: 18 },
+  boss: { shotWTolerance: 12 }
+}
+
+// Two things along w touch when their combined reach covers the gap,
+// the same way two circles touch when their radii cover the distance
+export function isInPhase(aW: number, bW: number, reach: number) {
+  return Math.abs(aW - bW) <= reach
+}
+
+const PHASE_LIMIT = 120 // how far from w = 0 the player can shift
+const SHIFT_BASE_SPEED = 30 // w units per second when Q/E is first pressed
+const SHIFT_RAMP = 90 // extra speed per second of holding
+const SHIFT_MAX_SPEED = 120
+const SHIFT_COST = 0.8 // energy per w unit of shift
+const ENERGY_REGEN = 25 // per second
+const ENERGY_REGEN_DELAY = 600 // ms after the last shift before energy comes back
+const PHASE_STIFFNESS = 60 // spring pulling w towards the target
+const PHASE_DAMPING = 2 * Math.sqrt(PHASE_STIFFNESS) // critically damped: no overshoot
+
+export function createPlayerPhase(): PlayerPhase {
+  return {
+    targetW: 0,
+    vw: 0,
+    energy: 100,
+    maxEnergy: 100,
+    heldFor: 0,
+    lastShift: 0
+  }
+}
+
+// How far the player has shifted on the old -100..100 dimension scale, for visuals:
+// the full PHASE_LIMIT either way maps onto the ends of the scale
+export function dimensionShiftOf(w: number) {
+  return Math.max(-100, Math.min(100, (w / PHASE_LIMIT) * 100))
+}
+
+// Holding Q/E (direction -1 or 1) pushes the target phase at a ramping speed, paid for
+// with energy. w itself chases the target on a spring so shifts ease in and out.
+export function updatePlayerPhase(player: Player, direction: number, seconds: number, time: number): Player {
+  let { targetW, energy, heldFor, lastShift } = player.phase
+
+  if (direction !== 0 && energy > 0) {
+    heldFor += seconds
+    const speed = Math.min(SHIFT_MAX_SPEED, SHIFT_BASE_SPEED + SHIFT_RAMP * heldFor)
+    const wanted = Math.max(-PHASE_LIMIT, Math.min(PHASE_LIMIT, targetW + direction * speed * seconds))
+    const moved = Math.min(Math.abs(wanted - targetW), energy / SHIFT_COST)
+    targetW += Math.sign(wanted - targetW) * moved
+    energy -= moved * SHIFT_COST
+    lastShift = time
+  } else {
+    heldFor = 0
+    if (time - lastShift >= ENERGY_REGEN_DELAY) {
+      energy = Math.min(player.phase.maxEnergy, energy + ENERGY_REGEN * seconds)
+    }
+  }
+
+  const acceleration = PHASE_STIFFNESS * (targetW - player.w) - PHASE_DAMPING * player.phase.vw
+  const vw = player.phase.vw + acceleration * seconds
+  return {
+    ...player,
+    w: player.w + vw * seconds,
+    phase: { ...player.phase, targetW, vw, energy, heldFor, lastShift }
+  }
+}
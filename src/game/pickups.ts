@@ -0,0 +1,152 @@
+import { BUFFS, applyBuff, type BuffId } from './buffs'
+import { spawnPoint } from './enemies'
+import { getPlayerHitbox } from './hitbox'
+import { isInPhase } from './phase'
+import { pickWeighted, type Rng } from './rng'
+import type { Enemy, GameEvent, Pickup, Player } from './types'
+import { WEAPONS } from './weapons'
+
+export const PICKUP_LIFETIME = 10000
+export const POWER_UP_LIFETIME = 15000
+
+const DROP_CHANCE = 0.45
+const BOSS_DROPS = 3
+const MAGNET_RADIUS = 120 // pixels from the player where pickups start homing in
+const MAGNET_W_REACH = 25 // ...and how far along w
+const MAGNET_SPEED = 400 // pixels (and w units) per second
+const HEALTH_AMOUNT = 25
+const ENERGY_AMOUNT = 40
+
+export interface PowerUpRule {
+  fromLevel: number
+  interval: number // ms between spawns
+  maxActive: number // power-ups lying around at once
+  weights: Partial<Record<BuffId, number>>
+}
+
+// The last rule whose fromLevel has been reached applies
+export const POWER_UP_RULES: PowerUpRule[] = [
+  { fromLevel: 1, interval: 20000, maxActive: 1, weights: { damageBoost: 2, rapidFire: 2, shield: 1 } },
+  { fromLevel: 3, interval: 15000, maxActive: 2, weights: { damageBoost: 2, rapidFire: 2, shield: 2, phaseSight: 1, infiniteAmmo: 1 } },
+  { fromLevel: 6, interval: 12000, maxActive: 2, weights: { damageBoost: 1, rapidFire: 1, shield: 2, phaseSight: 2, infiniteAmmo: 1 } }
+]
+
+export const powerUpRule = (level: number) =>
+  POWER_UP_RULES.reduce((rule, next) => next.fromLevel <= level ? next : rule, POWER_UP_RULES[0])
+
+export const isPowerUp = (kind: Pickup['kind']): kind is BuffId => kind in BUFFS
+
+// Spawn a power-up somewhere away from the player, a little off their phase, when one is due
+export function spawnPowerUps(
+  pickups: Pickup[],
+  player: Player,
+  time: number,
+  nextPowerUpAt: number,
+  rng: Rng
+): { pickups: Pickup[]; nextPowerUpAt: number } {
+  if (time < nextPowerUpAt) return { pickups, nextPowerUpAt }
+
+  const rule = powerUpRule(player.level)
+  const next = time + rule.interval
+  if (pickups.filter(pickup => isPowerUp(pickup.kind)).length >= rule.maxActive) {
+    return { pickups, nextPowerUpAt: next }
+  }
+
+  const { x, y } = spawnPoint(rng, player)
+  const powerUp: Pickup = {
+    id: `powerup-${time}`,
+    kind: pickWeighted(rng, rule.weights),
+    x,
+    y,
+    w: player.w + rng.range(-40, 40),
+    expiresAt: time + POWER_UP_LIFETIME
+  }
+  return { pickups: [...pickups, powerUp], nextPowerUpAt: next }
+}
+
+const pickKind = (rng: Rng): Pickup['kind'] => {
+  const roll = rng.next()
+  if (roll < 0.5) return 'ammo'
+  return roll < 0.75 ? 'health' : 'phaseEnergy'
+}
+
+// Roll drops for every enemy killed this step; bosses always drop a handful
+export function dropPickups(enemies: Enemy[], events: GameEvent[], rng: Rng, time: number): Pickup[] {
+  const drops: Pickup[] = []
+
+  events.forEach(event => {
+    if (event.type !== 'enemyKilled') return
+    const enemy = enemies.find(e => e.id === event.enemyId)
+    if (!enemy) return
+
+    const count = enemy.boss ? BOSS_DROPS : rng.chance(DROP_CHANCE) ? 1 : 0
+    for (let i = 0; i < count; i++) {
+      // Scatter multiple drops around where the enemy fell
+      const angle = (i / count) * Math.PI * 2
+      const offset = count > 1 ? enemy.size : 0
+      drops.push({
+        id: `pickup-${enemy.id}-${i}`,
+        kind: pickKind(rng),
+        x: enemy.x + Math.cos(angle) * offset,
+        y: enemy.y + Math.sin(angle) * offset,
+        w: enemy.w,
+        expiresAt: time + PICKUP_LIFETIME
+      })
+    }
+  })
+
+  return drops
+}
+
+function collect(player: Player, kind: Pickup['kind'], time: number): Player {
+  if (isPowerUp(kind)) return applyBuff(player, kind, time)
+
+  switch (kind) {
+    case 'ammo': {
+      // A magazine's worth for whatever is in hand
+      const weapon = WEAPONS[player.weaponId]
+      const reserve = Math.min(weapon.maxReserve, player.reserve[weapon.id] + weapon.magazine)
+      return { ...player, reserve: { ...player.reserve, [weapon.id]: reserve } }
+    }
+    case 'health':
+      return { ...player, health: Math.min(player.maxHealth, player.health + HEALTH_AMOUNT) }
+    case 'phaseEnergy': {
+      const energy = Math.min(player.phase.maxEnergy, player.phase.energy + ENERGY_AMOUNT)
+      return { ...player, phase: { ...player.phase, energy } }
+    }
+  }
+}
+
+// Expire old pickups, pull nearby ones towards the player in x/y/w and collect those that reach them
+export function updatePickups(
+  pickups: Pickup[],
+  player: Player,
+  time: number,
+  seconds: number,
+  events: GameEvent[]
+): { pickups: Pickup[]; player: Player } {
+  const hitbox = getPlayerHitbox(player)
+  const remaining: Pickup[] = []
+
+  pickups.forEach(pickup => {
+    if (time >= pickup.expiresAt) return
+
+    let { x, y, w } = pickup
+    const distance = Math.hypot(hitbox.x - x, hitbox.y - y)
+    if (distance < MAGNET_RADIUS && isInPhase(w, hitbox.w, MAGNET_W_REACH)) {
+      const pull = Math.min(1, (MAGNET_SPEED * seconds) / Math.max(distance, 1))
+      x += (hitbox.x - x) * pull
+      y += (hitbox.y - y) * pull
+      w += Math.sign(hitbox.w - w) * Math.min(Math.abs(hitbox.w - w), MAGNET_SPEED * seconds)
+    }
+
+    if (Math.hypot(hitbox.x - x, hitbox.y - y) < hitbox.radius && isInPhase(w, hitbox.w, hitbox.wRadius)) {
+      player = collect(player, pickup.kind, time)
+      events.push({ type: 'pickupCollected', kind: pickup.kind })
+      return
+    }
+    remaining.push({ ...pickup, x, y, w })
+  })
+
+  return { pickups: remaining, player }
+}
@@ -0,0 +1,517 @@
+import { healTargets } from './abilities'
+import { BUFFS, hasBuff, type BuffId } from './buffs'
+import { enemyCrossSection, getPlayerHitbox } from './hitbox'
+import {
+  SIXTEEN_CELL,
+  TESSERACT,
+  TWENTY_FOUR_CELL,
+  compose,
+  project3To2,
+  project4To3,
+  rotationXW,
+  rotationXY,
+  rotationYW,
+  rotationZW,
+  transform,
+  type Mat4,
+  type Polytope
+} from './math4d'
+import { dimensionShiftOf } from './phase'
+import { isPowerUp } from './pickups'
+import { idHash } from './rng'
+import { holdsToken } from './squad'
+import type { Camera, Crosshair, Enemy, EnemyProjectile, GameState, Pickup } from './types'
+import { WEAPONS } from './weapons'
+import { ARENA, worldToScreen } from './world'
+
+export interface RenderOverlay {
+  crosshair: Crosshair
+  muzzleFlash: boolean
+  damageFlash: boolean
+}
+
+// What the renderer needs from both enemy and player projectiles
+type Projectile = Pick<EnemyProjectile, 'x' | 'y' | 'w' | 'vx' | 'vy' | 'size' | 'color'>
+
+const RESOURCE_STYLE: Record<Exclude<Pickup['kind'], BuffId>, { color: string; label: string }> = {
+  ammo: { color: '#60a5fa', label: 'A' },
+  health: { color: '#4ade80', label: '+' },
+  phaseEnergy: { color: '#c084fc', label: 'P' }
+}
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha
+
+// Dimensional and boss enemies get a rotating 4D polytope on top of their cross-section
+function enemyMesh(enemy: Enemy): Polytope | null {
+  if (enemy.type === 'boss') return TWENTY_FOUR_CELL
+  if (enemy.type !== 'dimensional') return null
+  return idHash(enemy.id) % 2 === 0 ? TESSERACT : SIXTEEN_CELL
+}
+
+// Wireframe of a 4D polytope, projected 4D -> 3D -> 2D and fitted to `radius`
+function drawPolytope(
+  ctx: CanvasRenderingContext2D,
+  polytope: Polytope,
+  rotation: Mat4,
+  x: number,
+  y: number,
+  radius: number
+) {
+  const points = polytope.vertices.map(vertex =>
+    project3To2(project4To3(transform(rotation, vertex), 3), 4)
+  )
+  const scale = radius / 1.5
+
+  ctx.lineWidth = 1.5
+  polytope.edges.forEach(([a, b]) => {
+    const from = points[a]
+    const to = points[b]
+    // Edges nearer the eye along z are brighter
+    ctx.globalAlpha = Math.max(0.25, Math.min(1, 0.6 + (from.depth + to.depth) * 0.25))
+    ctx.beginPath()
+    ctx.moveTo(x + from.x * scale, y + from.y * scale)
+    ctx.lineTo(x + to.x * scale, y + to.y * scale)
+    ctx.stroke()
+  })
+}
+
+// Glowing projectile with a short trail, fading the further it is out of the player's phase
+function drawProjectile(
+  ctx: CanvasRenderingContext2D,
+  camera: Camera,
+  before: Projectile,
+  proj: Projectile,
+  playerW: number,
+  alpha: number
+) {
+  const { x, y } = worldToScreen(camera, lerp(before.x, proj.x, alpha), lerp(before.y, proj.y, alpha))
+  const wOffset = (proj.w - playerW) * 2
+  const projAlpha = Math.max(0.1, 1 - Math.abs(wOffset) * 0.01)
+  // Trail length in pixels, independent of how fast simulated time runs
+  const trailX = proj.vx * 0.032
+  const trailY = proj.vy * 0.032
+
+  ctx.save()
+  ctx.globalAlpha = projAlpha
+  ctx.fillStyle = proj.color
+  ctx.shadowColor = proj.color
+  ctx.shadowBlur = 10
+
+  // Draw projectile with trail effect
+  ctx.beginPath()
+  ctx.arc(x, y, proj.size, 0, 2 * Math.PI)
+  ctx.fill()
+
+  // Trail effect
+  ctx.globalAlpha = projAlpha * 0.5
+  ctx.beginPath()
+  ctx.arc(x - trailX, y - trailY, proj.size * 0.7, 0, 2 * Math.PI)
+  ctx.fill()
+
+  ctx.restore()
+}
+
+// Draw `current`, blended back towards `previous` by the fixed-step remainder alpha
+export function renderGame(
+  ctx: CanvasRenderingContext2D,
+  previous: GameState,
+  current: GameState,
+  alpha: number,
+  overlay: RenderOverlay
+) {
+  const { canvas } = ctx
+  const { player, timeWarp } = current
+  const dimensionShift = dimensionShiftOf(lerp(previous.player.w, player.w, alpha))
+  const { crosshair, muzzleFlash, damageFlash } = overlay
+
+  const camera = {
+    x: lerp(previous.camera.x, current.camera.x, alpha),
+    y: lerp(previous.camera.y, current.camera.y, alpha)
+  }
+  const previousEnemies = new Map(previous.enemies.map(enemy => [enemy.id, enemy]))
+  const previousProjectiles = new Map(previous.enemyProjectiles.map(proj => [proj.id, proj]))
+  const previousShots = new Map(previous.playerProjectiles.map(proj => [proj.id, proj]))
+  const previousGrenades = new Map(previous.grenades.map(grenade => [grenade.id, grenade]))
+
+  // Clear canvas (the whole frame is redrawn as the camera scrolls)
+  const background = ctx.createLinearGradient(0, 0, canvas.width, canvas.height)
+  background.addColorStop(Math.max(0, Math.min(1, (dimensionShift + 50) / 100)), '#000033')
+  background.addColorStop(Math.max(0, Math.min(1, (100 - dimensionShift) / 100)), '#001166')
+  ctx.fillStyle = background
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  // Damage flash effect
+  if (damageFlash) {
+    ctx.fillStyle = 'rgba(255, 0, 0, 0.3)'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  // Draw 4D grid effect, anchored to the world so it scrolls with the camera
+  const spacing = Math.max(10, 50 + dimensionShift)
+  const origin = worldToScreen(camera, 0, 0)
+  ctx.strokeStyle = `rgba(0, 255, 255, ${0.2 + Math.abs(dimensionShift) * 0.01})`
+  ctx.lineWidth = 1
+  for (let i = ((origin.x % spacing) + spacing) % spacing; i < canvas.width; i += spacing) {
+    ctx.beginPath()
+    ctx.moveTo(i, 0)
+    ctx.lineTo(i, canvas.height)
+    ctx.stroke()
+  }
+  for (let i = ((origin.y % spacing) + spacing) % spacing; i < canvas.height; i += spacing) {
+    ctx.beginPath()
+    ctx.moveTo(0, i)
+    ctx.lineTo(canvas.width, i)
+    ctx.stroke()
+  }
+
+  // Arena walls
+  const topLeft = worldToScreen(camera, ARENA.minX, ARENA.minY)
+  ctx.strokeStyle = '#a855f7'
+  ctx.lineWidth = 4
+  ctx.strokeRect(topLeft.x, topLeft.y, ARENA.maxX - ARENA.minX, ARENA.maxY - ARENA.minY)
+
+  // Draw enemy projectiles, then the player's own with the same treatment
+  current.enemyProjectiles.forEach(proj => {
+    drawProjectile(ctx, camera, previousProjectiles.get(proj.id) ?? proj, proj, player.w, alpha)
+    // Mines waiting to launch blink a warning ring that tightens as release nears
+    if (proj.age < proj.motion.releaseAfter && Math.floor(current.time / 120) % 2 === 0) {
+      const { x, y } = worldToScreen(camera, proj.x, proj.y)
+      const left = 1 - proj.age / proj.motion.releaseAfter
+      ctx.save()
+      ctx.strokeStyle = proj.color
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      ctx.arc(x, y, proj.size + 4 + 10 * left, 0, 2 * Math.PI)
+      ctx.stroke()
+      ctx.restore()
+    }
+  })
+  current.playerProjectiles.forEach(proj => {
+    drawProjectile(ctx, camera, previousShots.get(proj.id) ?? proj, proj, player.w, alpha)
+  })
+
+  // Pickups, fading with w distance like projectiles and blinking before they despawn
+  current.pickups.forEach(pickup => {
+    const { x, y } = worldToScreen(camera, pickup.x, pickup.y)
+    const powerUp = isPowerUp(pickup.kind)
+    const style = isPowerUp(pickup.kind) ? BUFFS[pickup.kind] : RESOURCE_STYLE[pickup.kind]
+    const expiring = pickup.expiresAt - current.time < 3000
+    if (expiring && Math.floor(current.time / 150) % 2 === 0) return
+
+    ctx.save()
+    ctx.globalAlpha = Math.max(0.15, 1 - Math.abs(pickup.w - player.w) * 0.02)
+    ctx.fillStyle = style.color
+    ctx.shadowColor = style.color
+    ctx.shadowBlur = 12
+    ctx.beginPath()
+    ctx.moveTo(x, y - 9)
+    ctx.lineTo(x + 9, y)
+    ctx.lineTo(x, y + 9)
+    ctx.lineTo(x - 9, y)
+    ctx.closePath()
+    ctx.fill()
+    ctx.fillStyle = '#000'
+    ctx.shadowBlur = 0
+    ctx.font = 'bold 10px monospace'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(style.label, x, y + 1)
+    // Power-ups get a slowly pulsing halo so they stand out from drops
+    if (powerUp) {
+      ctx.strokeStyle = style.color
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(x, y, 14 + Math.sin(current.time * 0.006) * 2, 0, 2 * Math.PI)
+      ctx.stroke()
+    }
+    ctx.restore()
+  })
+
+  // Grenades: a shadow on the ground and the grenade raised above it by its arc
+  current.grenades.forEach(grenade => {
+    const before = previousGrenades.get(grenade.id) ?? grenade
+    const { x, y } = worldToScreen(camera, lerp(before.x, grenade.x, alpha), lerp(before.y, grenade.y, alpha))
+    const height = lerp(before.height, grenade.height, alpha)
+
+    ctx.save()
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.4)'
+    ctx.beginPath()
+    ctx.ellipse(x, y, 6, 3, 0, 0, 2 * Math.PI)
+    ctx.fill()
+    ctx.fillStyle = '#a3e635'
+    ctx.shadowColor = '#a3e635'
+    ctx.shadowBlur = 8
+    ctx.beginPath()
+    ctx.arc(x, y - height, 5, 0, 2 * Math.PI)
+    ctx.fill()
+    ctx.restore()
+  })
+
+  // Healers tether themselves to the allies they are mending
+  current.enemies.forEach(healer => {
+    const targets = healTargets(healer, current.enemies)
+    if (targets.length === 0) return
+    const from = worldToScreen(camera, healer.x, healer.y)
+    ctx.save()
+    ctx.strokeStyle = healer.color
+    ctx.globalAlpha = 0.35 + 0.2 * Math.sin(current.time * 0.01)
+    ctx.lineWidth = 2
+    targets.forEach(target => {
+      const to = worldToScreen(camera, target.x, target.y)
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.stroke()
+    })
+    ctx.restore()
+  })
+
+  // Draw enemies as cross-sections of their hyperspheres through the player's w-slice,
+  // using the same radius shoot() tests against
+  const sliceTolerance = WEAPONS[player.weaponId].wTolerance
+  const phaseSight = hasBuff(player, 'phaseSight')
+  current.enemies.forEach(enemy => {
+    if (!enemy.isActive) return
+
+    const radius = enemyCrossSection(enemy, player.w, sliceTolerance)
+    if (radius <= 0 && !phaseSight) return
+
+    const before = previousEnemies.get(enemy.id) ?? enemy
+    const { x, y } = worldToScreen(camera, lerp(before.x, enemy.x, alpha), lerp(before.y, enemy.y, alpha))
+
+    // Phase sight outlines enemies that are entirely out of phase
+    if (radius <= 0) {
+      ctx.save()
+      ctx.strokeStyle = enemy.color
+      ctx.lineWidth = 2
+      ctx.setLineDash([4, 4])
+      ctx.beginPath()
+      ctx.arc(x, y, enemy.size, 0, 2 * Math.PI)
+      ctx.stroke()
+      ctx.restore()
+      return
+    }
+
+    ctx.save()
+    // Slices near the rim of the hypersphere look fainter, unless phase sight is on
+    ctx.globalAlpha = phaseSight ? 1 : 0.4 + 0.6 * (radius / enemy.size)
+    ctx.fillStyle = enemy.color
+    ctx.shadowColor = enemy.color
+    ctx.shadowBlur = 20
+
+    // Draw enemy
+    const mesh = enemyMesh(enemy)
+    const bodyAlpha = ctx.globalAlpha
+    if (mesh) ctx.globalAlpha = bodyAlpha * 0.3
+    ctx.beginPath()
+    ctx.arc(x, y, radius, 0, 2 * Math.PI)
+    ctx.fill()
+    ctx.globalAlpha = bodyAlpha
+
+    if (mesh) {
+      // Spin is driven by where the enemy sits in w and how far the player has shifted
+      const rotation = compose(
+        rotationXY(current.time * 0.0006),
+        rotationXW(enemy.w * 0.05),
+        rotationYW(dimensionShift * 0.015),
+        rotationZW((enemy.w - player.w) * 0.04)
+      )
+      ctx.save()
+      ctx.strokeStyle = enemy.color
+      drawPolytope(ctx, mesh, rotation, x, y, radius)
+      ctx.restore()
+    }
+
+    // Shielded enemies wear a ring that thins as the shield wears down
+    if (enemy.shield > 0) {
+      ctx.strokeStyle = '#93c5fd'
+      ctx.lineWidth = 1 + 3 * (enemy.shield / enemy.maxShield)
+      ctx.beginPath()
+      ctx.arc(x, y, radius + 9, 0, 2 * Math.PI)
+      ctx.stroke()
+    }
+
+    // Shooting indicator (glowing effect when about to shoot). Squad members only glow once
+    // they hold a token, and keep glowing while they wait for a clear shot.
+    const timeSinceLastShot = enemy.clock - enemy.lastShot
+    const timeUntilNextShot = enemy.volley.wait - timeSinceLastShot
+    const cleared = enemy.squad ? holdsToken(current.squad, enemy.id) : timeUntilNextShot > 0
+    if (cleared && timeUntilNextShot < 500) {
+      ctx.strokeStyle = '#ffff00'
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(x, y, radius + 5, 0, 2 * Math.PI)
+      ctx.stroke()
+    }
+
+    // "!" while an enemy has just spotted the player, "?" while it is running away
+    if (enemy.ai.mode === 'alert' || enemy.ai.mode === 'flee') {
+      ctx.fillStyle = enemy.ai.mode === 'alert' ? '#ffff00' : '#94a3b8'
+      ctx.font = 'bold 14px monospace'
+      ctx.textAlign = 'center'
+      ctx.fillText(enemy.ai.mode === 'alert' ? '!' : '?', x, y - radius - 10)
+    }
+
+    // Health bar
+    if (enemy.health < enemy.maxHealth) {
+      ctx.fillStyle = 'red'
+      ctx.fillRect(x - 10, y - 20, 20, 3)
+      ctx.fillStyle = 'green'
+      ctx.fillRect(x - 10, y - 20, 20 * (enemy.health / enemy.maxHealth), 3)
+    }
+
+    ctx.restore()
+  })
+
+  // Shot tracers, ripples where shots slipped through out-of-phase enemies, and blasts
+  current.effects.forEach(effect => {
+    const progress = Math.min(1, (current.time - effect.createdAt) / effect.duration)
+
+    ctx.save()
+    ctx.globalAlpha = 1 - progress
+    if (effect.type === 'tracer') {
+      const from = worldToScreen(camera, effect.from.x, effect.from.y)
+      const to = worldToScreen(camera, effect.to.x, effect.to.y)
+      ctx.strokeStyle = '#fef08a'
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.stroke()
+    } else if (effect.type === 'shockwave') {
+      // The main ring, with fainter echoes for the neighbouring w slices it reaches into
+      const { x, y } = worldToScreen(camera, effect.x, effect.y)
+      const echoes = [1, 0.75, 0.5]
+      ctx.strokeStyle = '#bef264'
+      echoes.forEach((echo, i) => {
+        ctx.globalAlpha = (1 - progress) * echo
+        ctx.lineWidth = 4 - i
+        ctx.setLineDash(i === 0 ? [] : [6, 6])
+        ctx.beginPath()
+        ctx.arc(x, y, effect.radius * progress * echo, 0, 2 * Math.PI)
+        ctx.stroke()
+      })
+    } else if (effect.type === 'shieldBreak') {
+      // Shards of the broken shield flying off the player
+      const { x, y } = worldToScreen(camera, effect.x, effect.y)
+      const reach = 20 + progress * 40
+      ctx.strokeStyle = '#67e8f9'
+      ctx.lineWidth = 2
+      for (let i = 0; i < 10; i++) {
+        const angle = (i / 10) * Math.PI * 2
+        ctx.beginPath()
+        ctx.moveTo(x + Math.cos(angle) * (reach - 8), y + Math.sin(angle) * (reach - 8))
+        ctx.lineTo(x + Math.cos(angle) * reach, y + Math.sin(angle) * reach)
+        ctx.stroke()
+      }
+    } else if (effect.type === 'explosion') {
+      const { x, y } = worldToScreen(camera, effect.x, effect.y)
+      ctx.fillStyle = 'rgba(251, 146, 60, 0.35)'
+      ctx.strokeStyle = '#fdba74'
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.arc(x, y, effect.radius * (0.3 + progress * 0.7), 0, 2 * Math.PI)
+      ctx.fill()
+      ctx.stroke()
+    } else {
+      const { x, y } = worldToScreen(camera, effect.x, effect.y)
+      ctx.strokeStyle = '#c084fc'
+      ctx.lineWidth = 2
+      ctx.setLineDash([4, 4])
+      ctx.beginPath()
+      ctx.arc(x, y, 10 + progress * 30, 0, 2 * Math.PI)
+      ctx.stroke()
+    }
+    ctx.restore()
+  })
+
+  // While rewinding, trace the path the player is being pulled back along
+  if (current.rewind.active && current.rewind.history.length > 1) {
+    ctx.save()
+    ctx.strokeStyle = 'rgba(244, 114, 182, 0.6)'
+    ctx.lineWidth = 2
+    ctx.setLineDash([6, 6])
+    ctx.beginPath()
+    current.rewind.history.forEach((snapshot, i) => {
+      const point = worldToScreen(camera, snapshot.player.x, snapshot.player.y)
+      if (i === 0) ctx.moveTo(point.x, point.y)
+      else ctx.lineTo(point.x, point.y)
+    })
+    ctx.stroke()
+    ctx.restore()
+  }
+
+  // Draw player at the size of its hitbox
+  const hitbox = getPlayerHitbox(player)
+  const self = worldToScreen(
+    camera,
+    lerp(previous.player.x, player.x, alpha),
+    lerp(previous.player.y, player.y, alpha)
+  )
+  ctx.save()
+  ctx.fillStyle = '#22d3ee'
+  ctx.shadowColor = '#22d3ee'
+  ctx.shadowBlur = 15
+  ctx.beginPath()
+  ctx.arc(self.x, self.y, hitbox.radius, 0, 2 * Math.PI)
+  ctx.fill()
+  // Faint bubble for the regenerating shield, solid ring for a shield power-up
+  if (player.shield > 0) {
+    ctx.globalAlpha = 0.25 + 0.35 * (player.shield / player.maxShield)
+    ctx.strokeStyle = '#67e8f9'
+    ctx.lineWidth = 1.5
+    ctx.beginPath()
+    ctx.arc(self.x, self.y, hitbox.radius + 3, 0, 2 * Math.PI)
+    ctx.stroke()
+    ctx.globalAlpha = 1
+  }
+  if (player.buffs.shield) {
+    ctx.strokeStyle = BUFFS.shield.color
+    ctx.lineWidth = 3
+    ctx.beginPath()
+    ctx.arc(self.x, self.y, hitbox.radius + 6, 0, 2 * Math.PI)
+    ctx.stroke()
+  }
+  ctx.restore()
+
+  // Draw crosshair
+  ctx.strokeStyle = '#00ff00'
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.moveTo(crosshair.x - 10, crosshair.y)
+  ctx.lineTo(crosshair.x + 10, crosshair.y)
+  ctx.moveTo(crosshair.x, crosshair.y - 10)
+  ctx.lineTo(crosshair.x, crosshair.y + 10)
+  ctx.stroke()
+
+  // Muzzle flash
+  if (muzzleFlash) {
+    ctx.fillStyle = 'rgba(255, 255, 0, 0.8)'
+    ctx.beginPath()
+    ctx.arc(crosshair.x, crosshair.y, 30, 0, 2 * Math.PI)
+    ctx.fill()
+  }
+
+  // Time warp effect
+  if (timeWarp !== 1) {
+    ctx.fillStyle = 'rgba(0, 255, 255, 0.1)'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  // Rewind effect: magenta wash with rolling scanlines
+  if (current.rewind.active) {
+    ctx.save()
+    ctx.fillStyle = 'rgba(236, 72, 153, 0.12)'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.06)'
+    const roll = (current.time * 0.1) % 8
+    for (let y = roll; y < canvas.height; y += 8) {
+      ctx.fillRect(0, y, canvas.width, 2)
+    }
+    ctx.fillStyle = '#f472b6'
+    ctx.font = 'bold 20px monospace'
+    ctx.textAlign = 'right'
+    ctx.fillText('<< REWIND', canvas.width - 20, 40)
+    ctx.restore()
+  }
+}
@@ -0,0 +1,43 @@
+import type { GameEvent, RewindSnapshot, RewindState } from './types'
+
+const HISTORY_SIZE = 180 // snapshots kept, one per step: about three seconds
+const PLAYBACK_SPEED = 2 // snapshots consumed per step while rewinding
+const REWIND_COOLDOWN = 5000
+
+export const REWINDS_PER_LEVEL = 2
+
+export function createRewind(): RewindState {
+  return { history: [], active: false, usesLeft: REWINDS_PER_LEVEL, cooldownEndsAt: 0 }
+}
+
+export const canRewind = (rewind: RewindState, time: number) =>
+  rewind.usesLeft > 0 && time >= rewind.cooldownEndsAt && rewind.history.length > 0
+
+// Append the latest snapshot, dropping the oldest once the buffer is full
+export function recordSnapshot(rewind: RewindState, snapshot: RewindSnapshot): RewindState {
+  const history = rewind.history.length >= HISTORY_SIZE ? rewind.history.slice(1) : rewind.history
+  return { ...rewind, history: [...history, snapshot] }
+}
+
+// Start, continue or stop playing history backwards for the held rewind key.
+// While active, returns the snapshot the world should jump back to.
+export function updateRewind(
+  rewind: RewindState,
+  held: boolean,
+  time: number,
+  events: GameEvent[]
+): { rewind: RewindState; snapshot: RewindSnapshot | null } {
+  if (!rewind.active) {
+    if (!held || !canRewind(rewind, time)) return { rewind, snapshot: null }
+    rewind = { ...rewind, active: true, usesLeft: rewind.usesLeft - 1 }
+    events.push({ type: 'rewindStarted' })
+  }
+
+  if (!held || rewind.history.length === 0) {
+    events.push({ type: 'rewindEnded' })
+    return { rewind: { ...rewind, active: false, cooldownEndsAt: time + REWIND_COOLDOWN }, snapshot: null }
+  }
+
+  const keep = Math.max(0, rewind.history.length - PLAYBACK_SPEED)
+  return { rewind: { ...rewind, history: rewind.history.slice(0, keep) }, snapshot: rewind.history[keep] }
+}
@@ -0,0 +1,41 @@
+export interface Rng {
+  next(): number // uniform in [0, 1)
+  range(min: number, max: number): number
+  chance(probability: number): boolean
+  state(): number
+}
+
+// mulberry32: tiny, fast and good enough for gameplay randomness
+export function createRng(seed: number): Rng {
+  let s = seed >>> 0
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    chance: probability => next() < probability,
+    state: () => s
+  }
+}
+
+// Pick one key with probability proportional to its weight
+export function pickWeighted<T extends string>(rng: Rng, weights: Partial<Record<T, number>>): T {
+  const entries = Object.entries(weights) as [T, number][]
+  let roll = rng.range(0, entries.reduce((sum, [, weight]) => sum + weight, 0))
+  for (const [id, weight] of entries) {
+    roll -= weight
+    if (roll < 0) return id
+  }
+  return entries[entries.length - 1][0]
+}
+
+// Stable per-id number (a 32-bit string hash), for per-entity variety that has to
+// stay the same from frame to frame without touching the seeded stream
+export const idHash = (id: string) => [...id].reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) >>> 0, 0)
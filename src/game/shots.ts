@@ -0,0 +1,111 @@
+import { damageMultiplier } from './buffs'
+import { damageEnemy } from './damage'
+import { enemyCrossSection } from './hitbox'
+import type { Rng } from './rng'
+import type { Enemy, GameEvent, Player, PlayerProjectile, VisualEffect } from './types'
+import type { ProjectileSpec, Weapon } from './weapons'
+import { ARENA, clampToArena, isInArena } from './world'
+
+// One projectile leaving the player at `angle` (radians)
+export function createPlayerProjectile(
+  player: Player,
+  weapon: Weapon,
+  spec: ProjectileSpec,
+  angle: number,
+  time: number,
+  rng: Rng,
+  index: number
+): PlayerProjectile {
+  return {
+    id: `shot-${weapon.id}-${time}-${index}`,
+    x: player.x,
+    y: player.y,
+    w: player.w,
+    vx: Math.cos(angle) * spec.speed,
+    vy: Math.sin(angle) * spec.speed,
+    vw: rng.range(-1, 1) * spec.wDrift,
+    damage: weapon.damage * damageMultiplier(player),
+    color: spec.color,
+    size: spec.size,
+    wTolerance: weapon.wTolerance,
+    age: 0,
+    lifetime: (weapon.range / spec.speed) * 1000,
+    splashRadius: spec.splashRadius,
+    bouncesLeft: spec.bounces
+  }
+}
+
+// Damage falls off linearly with 4D distance from the blast to each enemy's surface
+function explode(
+  enemies: Enemy[],
+  proj: PlayerProjectile,
+  level: number,
+  time: number,
+  events: GameEvent[],
+  effects: VisualEffect[]
+) {
+  let score = 0
+  enemies.forEach(enemy => {
+    if (!enemy.isActive) return
+    const gap = Math.max(0, Math.hypot(enemy.x - proj.x, enemy.y - proj.y, enemy.w - proj.w) - enemy.size)
+    if (gap >= proj.splashRadius) return
+    const damaged = damageEnemy(enemies, enemy.id, proj.damage * (1 - gap / proj.splashRadius), level, events)
+    enemies = damaged.enemies
+    score += damaged.score
+  })
+  effects.push({ type: 'explosion', x: proj.x, y: proj.y, radius: proj.splashRadius, createdAt: time, duration: 400 })
+  return { enemies, score }
+}
+
+// Move the player's projectiles, ricochet them off the walls and resolve what they hit.
+// Splash projectiles also go off when they run out of range or hit a wall.
+export function updatePlayerProjectiles(
+  projectiles: PlayerProjectile[],
+  enemies: Enemy[],
+  level: number,
+  time: number,
+  seconds: number,
+  events: GameEvent[],
+  effects: VisualEffect[]
+) {
+  const remaining: PlayerProjectile[] = []
+  let score = 0
+
+  projectiles.forEach(proj => {
+    let { vx, vy, bouncesLeft } = proj
+    let x = proj.x + vx * seconds
+    let y = proj.y + vy * seconds
+
+    let hitWall = !isInArena(x, y)
+    if (hitWall && bouncesLeft > 0) {
+      if (x <= ARENA.minX || x >= ARENA.maxX) vx = -vx
+      if (y <= ARENA.minY || y >= ARENA.maxY) vy = -vy
+      const inside = clampToArena(x, y)
+      x = inside.x
+      y = inside.y
+      bouncesLeft--
+      hitWall = false
+    }
+
+    const moved = { ...proj, x, y, w: proj.w + proj.vw * seconds, vx, vy, bouncesLeft, age: proj.age + seconds * 1000 }
+    const target = enemies.find(enemy =>
+      enemy.isActive &&
+      Math.hypot(enemy.x - moved.x, enemy.y - moved.y) < enemyCrossSection(enemy, moved.w, moved.wTolerance) + moved.size
+    )
+    const spent = moved.age >= moved.lifetime || hitWall
+
+    if (!target && !spent) {
+      remaining.push(moved)
+    } else if (moved.splashRadius > 0) {
+      const blast = explode(enemies, moved, level, time, events, effects)
+      enemies = blast.enemies
+      score += blast.score
+    } else if (target) {
+      const damaged = damageEnemy(enemies, target.id, moved.damage, level, events)
+      enemies = damaged.enemies
+      score += damaged.score
+    }
+  })
+
+  return { projectiles: remaining, enemies, score }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { TICK_MS, createGame, createInput, step } from './simulation'
+import type { GameInput, GameState } from './types'
+
+// A few seconds of scripted play: moving, shooting, shifting phase and throwing a grenade
+function scriptedInput(frame: number): GameInput {
+  return {
+    ...createInput({ x: 400 + (frame % 120), y: 300 - (frame % 80) }),
+    move: { x: frame % 200 < 100 ? 1 : -1, y: frame % 300 < 150 ? -1 : 1 },
+    shoot: frame % 40 < 25,
+    phaseShift: frame % 240 < 60 ? 1 : frame % 240 < 120 ? -1 : 0,
+    throwGrenade: frame === 90
+  }
+}
+
+function play(seed: number, frames: number) {
+  let state = createGame(seed)
+  for (let frame = 0; frame < frames; frame++) state = step(state, scriptedInput(frame), TICK_MS)
+  return state
+}
+
+const killAll = (state: GameState): GameState => ({
+  ...state,
+  enemies: state.enemies.map(enemy => ({ ...enemy, isActive: false }))
+})
+
+describe('step', () => {
+  it('replays a seed and its inputs to exactly the same game', () => {
+    expect(play(7, 600)).toEqual(play(7, 600))
+  })
+
+  it('plays out differently on another seed', () => {
+    expect(play(8, 600).enemies).not.toEqual(play(7, 600).enemies)
+  })
+
+  it('moves on to the next level once every enemy is down', () => {
+    const state = step(killAll(createGame(3)), createInput({ x: 400, y: 300 }), TICK_MS)
+
+    expect(state.player.level).toBe(2)
+    expect(state.events).toContainEqual({ type: 'levelComplete', level: 1 })
+    expect(state.enemies.length).toBeGreaterThan(0)
+    expect(state.enemies.every(enemy => enemy.isActive)).toBe(true)
+    expect(state.status).toBe('playing')
+  })
+
+  it('keeps counting levels up', () => {
+    let state = createGame(3)
+    for (let level = 2; level <= 4; level++) {
+      state = step(killAll(state), createInput({ x: 400, y: 300 }), TICK_MS)
+      expect(state.player.level).toBe(level)
+    }
+  })
+})
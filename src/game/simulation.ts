@@ -0,0 +1,494 @@
+import { splitEnemies, updateAbilities } from './abilities'
+import { updateEnemyAi } from './ai'
+import { aimAngle } from './aiming'
+import { ARCHETYPES } from './archetypes'
+import { BOSS_PHASES, bossName, createBoss, isBossLevel, updateBosses } from './boss'
+import { damageMultiplier, expireBuffs, fireRateMultiplier, hasBuff } from './buffs'
+import { damageEnemy } from './damage'
+import { MAX_SHIELD, STARTING_ARMOR, damagePlayer, regenerateShield } from './defense'
+import { generateEnemies } from './enemies'
+import { updateEvasion } from './evasion'
+import { MAX_GRENADES, STARTING_GRENADES, createGrenade, updateGrenades } from './grenades'
+import { distanceToHitbox, enemyCrossSection, getPlayerHitbox, overlapsHitbox, rayApproach } from './hitbox'
+import { advanceVolley, currentVolley, fireVolley, moveEnemyProjectile } from './patterns'
+import { createPlayerPhase, updatePlayerPhase } from './phase'
+import { dropPickups, powerUpRule, spawnPowerUps, updatePickups } from './pickups'
+import { createRewind, recordSnapshot, updateRewind } from './rewind'
+import { createRng, type Rng } from './rng'
+import { createPlayerProjectile, updatePlayerProjectiles } from './shots'
+import { coordinateSquad, createSquad, mayAttack, recordAttacks } from './squad'
+import { WARP_SCALE, createTimeWarp, refillTimeWarp, scaledDt, timeScaleFor, updateTimeWarp } from './timewarp'
+import type {
+  Banner,
+  Crosshair,
+  Enemy,
+  EnemyProjectile,
+  GameEvent,
+  GameInput,
+  GameState,
+  Player,
+  PlayerHitbox,
+  PlayerProjectile,
+  Point,
+  SquadState,
+  VisualEffect
+} from './types'
+import { WEAPONS, WEAPON_SLOTS, chooseWeapon, fullMagazines, pullTrigger, startingReserves } from './weapons'
+import { clampToArena, followPlayer, isInArena, screenToWorld } from './world'
+
+export const TICK_MS = 1000 / 60
+
+const PROJECTILE_LIFETIME = 5000 // 5 seconds max lifetime
+const BOSS_ESCORTS = 2
+const BANNER_TIME = 2500
+const PLAYER_ACCELERATION = 2400 // pixels per second squared
+const PLAYER_MAX_SPEED = 320
+const PLAYER_FRICTION = 8 // per second, how quickly velocity decays with no input
+
+export function createPlayer(): Player {
+  return {
+    x: 0,
+    y: 0,
+    z: 0,
+    w: 0,
+    vx: 0,
+    vy: 0,
+    phase: createPlayerPhase(),
+    health: 100,
+    maxHealth: 100,
+    shield: MAX_SHIELD,
+    maxShield: MAX_SHIELD,
+    armor: STARTING_ARMOR,
+    weaponId: 'rifle',
+    inventory: [...WEAPON_SLOTS],
+    ammo: fullMagazines(),
+    reserve: startingReserves(),
+    lastFired: -Infinity,
+    grenadeCount: STARTING_GRENADES,
+    buffs: {},
+    triggerHeld: false,
+    burstLeft: 0,
+    score: 0,
+    level: 1,
+    lastDamaged: 0
+  }
+}
+
+export function createInput(crosshair: Crosshair): GameInput {
+  return {
+    crosshair,
+    move: { x: 0, y: 0 },
+    shoot: false,
+    reload: false,
+    throwGrenade: false,
+    selectWeapon: null,
+    cycleWeapon: 0,
+    phaseShift: 0,
+    toggleTimeWarp: false,
+    rewind: false
+  }
+}
+
+export function createGame(seed: number): GameState {
+  const rng = createRng(seed)
+  const player = createPlayer()
+  const level = startLevel(rng, 1, 5, player, 0)
+
+  return {
+    seed,
+    rngState: rng.state(),
+    time: 0,
+    status: 'playing',
+    player,
+    camera: followPlayer(player),
+    enemies: level.enemies,
+    enemyProjectiles: [],
+    playerProjectiles: [],
+    grenades: [],
+    pickups: [],
+    nextPowerUpAt: powerUpRule(1).interval / 2,
+    effects: [],
+    banner: level.banner,
+    warp: createTimeWarp(),
+    timeWarp: 1,
+    rewind: createRewind(),
+    squad: createSquad(),
+    reloadEndsAt: null,
+    events: []
+  }
+}
+
+// Regular levels get `count` enemies; boss levels a boss with a small escort
+function startLevel(
+  rng: Rng,
+  level: number,
+  count: number,
+  player: Player,
+  time: number
+): { enemies: Enemy[]; banner: Banner | null; intro: GameEvent | null } {
+  if (!isBossLevel(level)) {
+    return { enemies: generateEnemies(rng, count, level, player), banner: null, intro: null }
+  }
+
+  const boss = createBoss(rng, level, player)
+  const name = bossName(level)
+  const banner: Banner = { title: `WARNING: ${name}`, subtitle: `Level ${level} boss`, endsAt: time + BANNER_TIME }
+  return {
+    enemies: [boss, ...generateEnemies(rng, BOSS_ESCORTS, level, player)],
+    banner,
+    intro: { type: 'bossIntro', enemyId: boss.id, name }
+  }
+}
+
+// Advance the simulation by dt real milliseconds. Never mutates `state`.
+// The player always runs at full speed; during time warp each enemy and
+// projectile advances its own clock by a scaled share of dt instead.
+export function step(state: GameState, input: GameInput, dt: number): GameState {
+  if (state.status !== 'playing') return state
+
+  const rng = createRng(state.rngState)
+  const events: GameEvent[] = []
+  let { player, enemies, playerProjectiles, grenades, pickups, warp, reloadEndsAt } = state
+  const effects: VisualEffect[] = []
+  let banner = state.banner
+  const time = state.time + dt
+
+  // While rewinding, the step just jumps back through history instead of simulating
+  const rewound = updateRewind(state.rewind, input.rewind, time, events)
+  let rewind = rewound.rewind
+  if (rewound.snapshot) {
+    return {
+      ...state,
+      ...rewound.snapshot,
+      time,
+      camera: followPlayer(rewound.snapshot.player),
+      effects: state.effects.filter(effect => time - effect.createdAt < effect.duration),
+      banner: banner && time < banner.endsAt ? banner : null,
+      rewind,
+      events
+    }
+  }
+
+  warp = updateTimeWarp(warp, input.toggleTimeWarp, dt / 1000, events)
+  const timeWarp = warp.active ? WARP_SCALE : 1
+
+  // 4D dimension shifting
+  player = updatePlayerPhase(player, input.phaseShift, dt / 1000, time)
+  player = expireBuffs(player, time)
+  player = regenerateShield(player, time, dt / 1000)
+
+  // Switching weapons abandons a reload in progress
+  const weaponId = chooseWeapon(player.inventory, player.weaponId, input.selectWeapon, input.cycleWeapon)
+  if (weaponId !== player.weaponId) {
+    player = { ...player, weaponId, burstLeft: 0 }
+    reloadEndsAt = null
+  }
+  const weapon = WEAPONS[player.weaponId]
+
+  // Reloading tops the magazine up from the reserve, as far as the reserve goes
+  if (reloadEndsAt !== null && time >= reloadEndsAt) {
+    const loaded = Math.min(weapon.magazine - player.ammo[weapon.id], player.reserve[weapon.id])
+    player = {
+      ...player,
+      ammo: { ...player.ammo, [weapon.id]: player.ammo[weapon.id] + loaded },
+      reserve: { ...player.reserve, [weapon.id]: player.reserve[weapon.id] - loaded }
+    }
+    reloadEndsAt = null
+  }
+  player = movePlayer(player, input.move, dt / 1000)
+  const camera = followPlayer(player)
+  const aim = screenToWorld(camera, input.crosshair)
+
+  const ammo = player.ammo[weapon.id]
+  if (input.reload && reloadEndsAt === null && ammo !== weapon.magazine && player.reserve[weapon.id] > 0) {
+    reloadEndsAt = time + weapon.reloadTime
+  }
+
+  // Fire at the weapon's cadence for as long as its mode and the held trigger allow
+  const trigger = pullTrigger(weapon, input.shoot, player.triggerHeld, player.burstLeft)
+  player = { ...player, triggerHeld: input.shoot, burstLeft: trigger.burstLeft }
+  const loaded = ammo > 0 || hasBuff(player, 'infiniteAmmo')
+  if (trigger.wantsShot && (!loaded || reloadEndsAt !== null)) {
+    player = { ...player, burstLeft: 0 }
+  } else if (trigger.wantsShot && time - player.lastFired >= 1000 / (weapon.fireRate * fireRateMultiplier(player))) {
+    const result = shoot(player, enemies, aim, time, rng, events, effects)
+    player = { ...result.player, burstLeft: Math.max(0, trigger.burstLeft - 1) }
+    enemies = result.enemies
+    playerProjectiles = [...playerProjectiles, ...result.projectiles]
+  }
+
+  if (input.throwGrenade && player.grenadeCount > 0) {
+    grenades = [...grenades, createGrenade(player, aim, time)]
+    player = { ...player, grenadeCount: player.grenadeCount - 1 }
+  }
+
+  const hitbox = getPlayerHitbox(player)
+  enemies = moveEnemies(enemies, hitbox, dt, timeWarp, rng)
+
+  const coordinated = coordinateSquad(state.squad, enemies, hitbox, time, player.level)
+  const fired = updateEnemyShooting(coordinated.enemies, coordinated.squad, hitbox, player, timeWarp, rng)
+  let squad = recordAttacks(coordinated.squad, fired.shooters, time)
+  const bosses = updateBosses(fired.enemies, hitbox, time, rng, events, effects)
+  enemies = updateEvasion(bosses.enemies, aim, hitbox, time, dt, timeWarp, rng, effects)
+  enemies = updateAbilities(enemies, dt, timeWarp)
+
+  // The player's own shots and grenades fly on the player's time, unaffected by the warp
+  const shots = updatePlayerProjectiles(playerProjectiles, enemies, player.level, time, dt / 1000, events, effects)
+  playerProjectiles = shots.projectiles
+  const blasts = updateGrenades(grenades, shots.enemies, player.level, time, dt / 1000, events, effects)
+  grenades = blasts.grenades
+  enemies = [...blasts.enemies, ...splitEnemies(blasts.enemies, events, rng, player.level)]
+  player = { ...player, score: player.score + shots.score + blasts.score }
+  warp = refillTimeWarp(warp, events)
+
+  const spawned = spawnPowerUps(pickups, player, time, state.nextPowerUpAt, rng)
+  const collected = updatePickups(
+    [...spawned.pickups, ...dropPickups(enemies, events, rng, time)],
+    player,
+    time,
+    dt / 1000,
+    events
+  )
+  pickups = collected.pickups
+  player = collected.player
+
+  const projectiles = updateProjectiles(
+    [...state.enemyProjectiles, ...fired.projectiles, ...bosses.projectiles],
+    hitbox,
+    dt,
+    timeWarp
+  )
+  let enemyProjectiles = projectiles.remaining
+  let status: GameState['status'] = 'playing'
+
+  if (projectiles.hits.length > 0) {
+    const damage = projectiles.hits.reduce((sum, proj) => sum + proj.damage, 0)
+    player = damagePlayer(player, damage, time, events, effects)
+    if (player.health === 0) status = 'gameOver'
+  }
+
+  // Check if level complete
+  if (status === 'playing' && enemies.every(enemy => !enemy.isActive)) {
+    events.push({ type: 'levelComplete', level: player.level })
+    const next = startLevel(rng, player.level + 1, 5 + player.level, player, time)
+    enemies = next.enemies
+    if (next.banner) banner = next.banner
+    if (next.intro) events.push(next.intro)
+    // Each new level hands back a grenade
+    player = { ...player, level: player.level + 1, grenadeCount: Math.min(MAX_GRENADES, player.grenadeCount + 1) }
+    enemyProjectiles = [] // Clear projectiles on new level
+    playerProjectiles = []
+    grenades = []
+    rewind = createRewind() // No rewinding into the previous level, and fresh uses
+    squad = createSquad()
+  }
+
+  events.forEach(event => {
+    if (event.type === 'bossPhaseChanged') {
+      const phase = BOSS_PHASES[event.phase]
+      banner = { title: `PHASE ${event.phase + 1}`, subtitle: phase.name, endsAt: time + BANNER_TIME / 2 }
+    } else if (event.type === 'bossDefeated') {
+      banner = { title: 'BOSS DEFEATED', subtitle: `+${event.bonus} bonus`, endsAt: time + BANNER_TIME }
+    }
+  })
+  if (banner && time >= banner.endsAt) banner = null
+
+  rewind = recordSnapshot(rewind, { player, enemies, enemyProjectiles, playerProjectiles, grenades, pickups })
+
+  return {
+    ...state,
+    rngState: rng.state(),
+    time,
+    status,
+    player,
+    camera,
+    enemies,
+    enemyProjectiles,
+    playerProjectiles,
+    grenades,
+    pickups,
+    nextPowerUpAt: spawned.nextPowerUpAt,
+    effects: [
+      ...state.effects.filter(effect => time - effect.createdAt < effect.duration),
+      ...effects
+    ],
+    banner,
+    warp,
+    timeWarp,
+    rewind,
+    squad,
+    reloadEndsAt,
+    events
+  }
+}
+
+// Accelerate towards the held direction, bleed speed off with friction, stay inside the arena
+function movePlayer(player: Player, move: Point, seconds: number): Player {
+  const length = Math.hypot(move.x, move.y)
+  const ax = length > 0 ? (move.x / length) * PLAYER_ACCELERATION : 0
+  const ay = length > 0 ? (move.y / length) * PLAYER_ACCELERATION : 0
+  const damping = Math.exp(-PLAYER_FRICTION * seconds)
+
+  let vx = (player.vx + ax * seconds) * damping
+  let vy = (player.vy + ay * seconds) * damping
+  const speed = Math.hypot(vx, vy)
+  if (speed > PLAYER_MAX_SPEED) {
+    vx = (vx / speed) * PLAYER_MAX_SPEED
+    vy = (vy / speed) * PLAYER_MAX_SPEED
+  }
+
+  const next = clampToArena(player.x + vx * seconds, player.y + vy * seconds, getPlayerHitbox(player).radius)
+  // Walls stop the player instead of letting velocity build up against them
+  if (next.x !== player.x + vx * seconds) vx = 0
+  if (next.y !== player.y + vy * seconds) vy = 0
+
+  return { ...player, x: next.x, y: next.y, vx, vy }
+}
+
+// Hitscan: each pellet is a ray from the player towards the aim, spread by the weapon.
+// Rays stop at the first enemy they hit unless the weapon penetrates, and pass
+// through enemies whose cross-section at the player's slice they miss.
+// Projectile weapons launch their pellets instead and leave the rest to the simulation.
+function shoot(
+  player: Player,
+  enemies: Enemy[],
+  aim: Point,
+  time: number,
+  rng: Rng,
+  events: GameEvent[],
+  effects: VisualEffect[]
+) {
+  const weapon = WEAPONS[player.weaponId]
+  const baseAngle = Math.atan2(aim.y - player.y, aim.x - player.x)
+  const phasedThrough = new Set<string>()
+  let score = player.score
+  let hit = enemies
+  const projectiles: PlayerProjectile[] = []
+  events.push({ type: 'playerShot' })
+
+  for (let pellet = 0; pellet < weapon.pellets; pellet++) {
+    const angle = baseAngle + rng.range(-0.5, 0.5) * weapon.spread
+    if (weapon.projectile) {
+      projectiles.push(createPlayerProjectile(player, weapon, weapon.projectile, angle, time, rng, pellet))
+      continue
+    }
+
+    const dx = Math.cos(angle)
+    const dy = Math.sin(angle)
+
+    const inLine = hit
+      .filter(enemy => enemy.isActive)
+      .map(enemy => ({ enemy, ...rayApproach(player.x, player.y, dx, dy, enemy.x, enemy.y) }))
+      .filter(({ enemy, along, offset }) => along > 0 && along < weapon.range && offset < enemy.size)
+      .sort((a, b) => a.along - b.along)
+
+    let end = weapon.range
+    let pierced = 0
+    for (const { enemy, along, offset } of inLine) {
+      // Outside the cross-section at the player's slice: the ray passes straight through
+      if (offset >= enemyCrossSection(enemy, player.w, weapon.wTolerance)) {
+        if (!phasedThrough.has(enemy.id)) {
+          phasedThrough.add(enemy.id)
+          events.push({ type: 'shotPhasedThrough', enemyId: enemy.id })
+          effects.push({ type: 'phaseRipple', x: enemy.x, y: enemy.y, createdAt: time, duration: 300 })
+        }
+        continue
+      }
+
+      const damaged = damageEnemy(hit, enemy.id, weapon.damage * damageMultiplier(player), player.level, events)
+      hit = damaged.enemies
+      score += damaged.score
+
+      if (pierced >= weapon.penetration) {
+        end = along
+        break
+      }
+      pierced++
+    }
+
+    effects.push({
+      type: 'tracer',
+      from: { x: player.x, y: player.y },
+      to: { x: player.x + dx * end, y: player.y + dy * end },
+      createdAt: time,
+      duration: 80
+    })
+  }
+
+  const spent = hasBuff(player, 'infiniteAmmo') ? 0 : 1
+  const ammo = { ...player.ammo, [weapon.id]: player.ammo[weapon.id] - spent }
+  return { player: { ...player, ammo, score, lastFired: time }, enemies: hit, projectiles }
+}
+
+// Advance each enemy's own clock, then let its AI steer it along that clock
+function moveEnemies(enemies: Enemy[], target: PlayerHitbox, dt: number, timeWarp: number, rng: Rng): Enemy[] {
+  const advanced = enemies.map(enemy =>
+    enemy.isActive ? { ...enemy, clock: enemy.clock + scaledDt(dt, timeWarp, enemy.timeResistance) } : enemy
+  )
+  return updateEnemyAi(advanced, target, dt, timeWarp, rng)
+}
+
+// Enemy AI shooting logic
+// Enemies only fire once the squad has given them the go-ahead
+function updateEnemyShooting(
+  enemies: Enemy[],
+  squad: SquadState,
+  target: PlayerHitbox,
+  player: Player,
+  timeWarp: number,
+  rng: Rng
+) {
+  const projectiles: EnemyProjectile[] = []
+  const shooters: string[] = []
+
+  const updated = enemies.map(enemy => {
+    if (!enemy.isActive) return enemy
+
+    // Aim at the center of the player's hitbox, detect against its edge
+    const distance = distanceToHitbox(target, enemy.x, enemy.y)
+
+    if (distance > enemy.detectionRange || enemy.clock - enemy.lastShot <= enemy.volley.wait) {
+      return enemy
+    }
+    if (!mayAttack(squad, enemy, target)) return enemy
+
+    // Lead the player by however far the shot travels in world time, then add some inaccuracy
+    const { projectile, script } = ARCHETYPES[enemy.archetype]
+    const volley = currentVolley(script, enemy.volley)
+    const speed = volley.speed ?? rng.range(...projectile.speed) // pixels per second
+    const angle = aimAngle(enemy, target, player.vx, player.vy, speed * timeScaleFor(timeWarp, enemy.timeResistance))
+    const inaccuracy = rng.range(-0.5, 0.5) * (1 - enemy.accuracy) * Math.PI / 4
+    const finalAngle = angle + inaccuracy
+
+    projectiles.push(...fireVolley(enemy, volley, enemy.volley.spin, finalAngle, speed, rng))
+    shooters.push(enemy.id)
+
+    return { ...enemy, lastShot: enemy.clock, volley: advanceVolley(script, enemy.volley, enemy.shootCooldown) }
+  })
+
+  return { enemies: updated, projectiles, shooters }
+}
+
+// Move enemy projectiles and split out the ones that reached the player.
+// Shots keep their shooter's resistance, so warp slows them just as much.
+function updateProjectiles(projectiles: EnemyProjectile[], hitbox: PlayerHitbox, dt: number, timeWarp: number) {
+  const hits: EnemyProjectile[] = []
+
+  const remaining = projectiles.map(proj =>
+    moveEnemyProjectile(proj, hitbox, scaledDt(dt, timeWarp, proj.timeResistance))
+  ).filter(proj => {
+    // Remove projectiles that left the arena or are too old
+    const isInBounds = isInArena(proj.x, proj.y, 50)
+    const isNotTooOld = proj.age < PROJECTILE_LIFETIME
+    if (!isInBounds || !isNotTooOld) return false
+
+    // Hit detection - the projectile has to touch the hitbox and be in phase with it
+    if (overlapsHitbox(hitbox, proj.x, proj.y, proj.w, proj.size, proj.wTolerance)) {
+      hits.push(proj)
+      return false
+    }
+    return true
+  })
+
+  return { remaining, hits }
+}
@@ -0,0 +1,160 @@
+import { ARCHETYPES } from './archetypes'
+import { isDodging } from './evasion'
+import { distanceToHitbox } from './hitbox'
+import { wrapAngle } from './patterns'
+import { ENEMY_PHASE, isInPhase } from './phase'
+import type { AttackToken, Enemy, PlayerHitbox, SquadRole, SquadSlot, SquadState } from './types'
+
+const STAGGER = 400 // ms between consecutive tokens, so attacks arrive one after another
+const ATTACK_WINDOW = 700 // ms a token stays held after its volley
+const TOKEN_TIMEOUT = 1500 // ms an unused token lasts before it can go to someone else
+const DIVE_LEAD = 500 // enemy ms before its cooldown is up that a phase-diver gets its token, to phase back in
+const WAVE_SIZE = 4 // tokens per wave...
+const LULL_TIME = 1500 // ...then this long with no new attacks, once the wave's last window closes
+const REGROUP_TIME = 1000 // ms with no new attacks after a squad member dies
+const FLANK_ARC = (Math.PI * 2) / 3 // how far round the player from the suppressors flankers go
+const FLANK_TOLERANCE = Math.PI / 4 // flankers only attack from within this of their bearing
+const DIVE_DEPTH = 70 // w units phase-divers hold away from the player's slice while waiting
+
+export const createSquad = (): SquadState => ({ members: [], tokens: [], nextGrantAt: 0, waveGrants: 0, quietUntil: 0 })
+
+// How many squad members may be attacking at once on `level`
+export const maxAttackers = (level: number) => Math.min(4, 2 + Math.floor((level - 1) / 3))
+
+export const holdsToken = (squad: SquadState, id: string) => squad.tokens.some(token => token.enemyId === id)
+
+// Bosses fight outside the squad. Everyone else needs a token, and phase-divers
+// also have to be back in the player's slice before their shots can land.
+export function mayAttack(squad: SquadState, enemy: Enemy, target: PlayerHitbox) {
+  if (!enemy.squad) return true
+  if (!holdsToken(squad, enemy.id)) return false
+  return enemy.squad.role !== 'phaseDiver' || isInPhase(enemy.w, target.w, ENEMY_PHASE[enemy.type].shotWTolerance)
+}
+
+// Dimensional enemies dive; of the rest, the fastest third (at least one, given two) flank
+// and the others suppress from range
+function assignRoles(members: Enemy[]) {
+  const roles = new Map<string, SquadRole>()
+  const grounded: Enemy[] = []
+  members.forEach(enemy => {
+    if (enemy.type === 'dimensional') roles.set(enemy.id, 'phaseDiver')
+    else grounded.push(enemy)
+  })
+
+  const speed = (enemy: Enemy) => ARCHETYPES[enemy.archetype].movement.speed
+  grounded.sort((a, b) => speed(b) - speed(a) || a.id.localeCompare(b.id))
+  const flankers = grounded.length >= 2 ? Math.max(1, Math.floor(grounded.length / 3)) : 0
+  grounded.forEach((enemy, i) => roles.set(enemy.id, i < flankers ? 'flanker' : 'suppressor'))
+  return roles
+}
+
+// Flankers work round to the far side of the player from wherever the suppressors are
+function flankBase(members: Enemy[], target: PlayerHitbox) {
+  const cover = members.filter(enemy => enemy.squad?.role === 'suppressor')
+  const from = cover.length > 0 ? cover : members
+  if (from.length === 0) return 0
+  const x = from.reduce((sum, enemy) => sum + enemy.x, 0) / from.length
+  const y = from.reduce((sum, enemy) => sum + enemy.y, 0) / from.length
+  return Math.atan2(y - target.y, x - target.x)
+}
+
+// Whether a member is close enough to attacking, and in position, to be worth a token
+function readyToAttack(enemy: Enemy, target: PlayerHitbox) {
+  if (distanceToHitbox(target, enemy.x, enemy.y) > enemy.detectionRange) return false
+  const lead = enemy.squad?.role === 'phaseDiver' ? DIVE_LEAD : 0
+  if (enemy.clock - enemy.lastShot < enemy.volley.wait - lead) return false
+  if (enemy.squad?.role !== 'flanker') return true
+  const bearing = Math.atan2(enemy.y - target.y, enemy.x - target.x)
+  return Math.abs(wrapAngle(bearing - enemy.squad.flankAngle)) <= FLANK_TOLERANCE
+}
+
+// Rebalance roles when the roster changes (pausing to regroup when someone dies), steer
+// flankers and divers, and hand out at most one attack token per step: staggered, capped
+// per level, and with a lull after every wave
+export function coordinateSquad(
+  squad: SquadState,
+  enemies: Enemy[],
+  target: PlayerHitbox,
+  time: number,
+  level: number
+): { squad: SquadState; enemies: Enemy[] } {
+  const members = enemies.filter(enemy => enemy.isActive && !enemy.boss)
+  const ids = new Set(members.map(enemy => enemy.id))
+  const lost = squad.members.some(id => !ids.has(id))
+  const joined = members.some(enemy => !squad.members.includes(enemy.id))
+  let { quietUntil, nextGrantAt, waveGrants } = squad
+  if (lost) quietUntil = Math.max(quietUntil, time + REGROUP_TIME)
+
+  const roles = lost || joined ? assignRoles(members) : null
+  let flankers = 0
+  let assigned = enemies.map(enemy => {
+    if (!ids.has(enemy.id)) return enemy
+    const role = roles?.get(enemy.id) ?? enemy.squad?.role ?? 'suppressor'
+    // Alternate flankers between the two sides
+    const side = role === 'flanker' ? (flankers++ % 2 === 0 ? 1 : -1) : 0
+    const squadSlot: SquadSlot = {
+      role,
+      side,
+      flankAngle: enemy.squad?.flankAngle ?? 0,
+      lurking: role === 'phaseDiver' && (enemy.squad?.lurking ?? false)
+    }
+    return { ...enemy, squad: squadSlot }
+  })
+
+  const base = flankBase(assigned.filter(enemy => ids.has(enemy.id)), target)
+
+  let tokens: AttackToken[] = squad.tokens.filter(token =>
+    ids.has(token.enemyId) &&
+    (token.firedAt === null ? time - token.grantedAt < TOKEN_TIMEOUT : time - token.firedAt < ATTACK_WINDOW)
+  )
+
+  assigned = assigned.map(enemy => {
+    const slot = ids.has(enemy.id) ? enemy.squad : null
+    if (!slot) return enemy
+    if (slot.role === 'flanker') return { ...enemy, squad: { ...slot, flankAngle: base + slot.side * FLANK_ARC } }
+    if (slot.role !== 'phaseDiver' || !enemy.evasion) return enemy
+
+    // Engaged divers slip out of the player's slice once while they wait for a token, and stay
+    // put there so the player can still shift after them; with a token they come back in to
+    // attack. Idle divers, and dodges still playing out, are left to themselves.
+    const engaged = enemy.ai.mode === 'alert' || enemy.ai.mode === 'pursue' || enemy.ai.mode === 'strafe'
+    const attacking = tokens.some(token => token.enemyId === enemy.id)
+    if (!engaged) return slot.lurking ? { ...enemy, squad: { ...slot, lurking: false } } : enemy
+    if (isDodging(enemy) || (slot.lurking && !attacking)) return enemy
+
+    const evasion = enemy.evasion
+    const away = Math.sign(evasion.homeW - target.w) || 1
+    const homeW = attacking ? target.w : target.w + away * DIVE_DEPTH
+    const targetW = evasion.cloakedUntil > 0 ? evasion.targetW : homeW
+    return { ...enemy, squad: { ...slot, lurking: !attacking }, evasion: { ...evasion, homeW, targetW } }
+  })
+
+  if (time >= quietUntil && time >= nextGrantAt && tokens.length < maxAttackers(level)) {
+    // Whoever has been kept waiting longest goes next
+    const overdue = (enemy: Enemy) => enemy.clock - enemy.lastShot - enemy.volley.wait
+    const next = assigned
+      .filter(enemy => ids.has(enemy.id) && !tokens.some(token => token.enemyId === enemy.id) && readyToAttack(enemy, target))
+      .sort((a, b) => overdue(b) - overdue(a))[0]
+
+    if (next) {
+      tokens = [...tokens, { enemyId: next.id, grantedAt: time, firedAt: null }]
+      nextGrantAt = time + STAGGER
+      waveGrants += 1
+      if (waveGrants >= WAVE_SIZE) {
+        quietUntil = time + ATTACK_WINDOW + LULL_TIME
+        waveGrants = 0
+      }
+    }
+  }
+
+  return { squad: { members: [...ids], tokens, nextGrantAt, waveGrants, quietUntil }, enemies: assigned }
+}
+
+// Start the attack window of every token holder that fired this step
+export function recordAttacks(squad: SquadState, shooters: string[], time: number): SquadState {
+  if (shooters.length === 0) return squad
+  const tokens = squad.tokens.map(token =>
+    token.firedAt === null && shooters.includes(token.enemyId) ? { ...token, firedAt: time } : token
+  )
+  return { ...squad, tokens }
+}
@@ -0,0 +1,55 @@
+import type { Enemy, GameEvent, TimeWarpState } from './types'
+
+export const WARP_SCALE = 0.4 // how fast unresisting enemies run while warped
+export const WARP_WARNING = 0.25 // fraction of the meter left when the HUD starts warning
+
+const WARP_DRAIN = 20 // meter per second while active
+const KILL_REFILL = 12
+const BOSS_REFILL = 50
+
+// 0 slows down fully with the warp, 1 ignores it entirely
+export const TIME_RESISTANCE: Record<Enemy['type'], number> = {
+  normal: 0,
+  dimensional: 0.5,
+  boss: 0.75
+}
+
+export function createTimeWarp(): TimeWarpState {
+  return { active: false, meter: 100, maxMeter: 100 }
+}
+
+// Time scale of an entity with the given resistance under the current warp
+export function timeScaleFor(timeWarp: number, resistance: number) {
+  return timeWarp + (1 - timeWarp) * resistance
+}
+
+// Simulated milliseconds that pass for an entity during `dt` real ones
+export function scaledDt(dt: number, timeWarp: number, resistance: number) {
+  return dt * timeScaleFor(timeWarp, resistance)
+}
+
+// Toggling only turns the warp on with something left in the meter; it shuts off when drained
+export function updateTimeWarp(warp: TimeWarpState, toggle: boolean, seconds: number, events: GameEvent[]): TimeWarpState {
+  let { active, meter } = warp
+  if (toggle) active = !active && meter > 0
+
+  if (active) {
+    meter = Math.max(0, meter - WARP_DRAIN * seconds)
+    if (meter === 0) {
+      active = false
+      events.push({ type: 'timeWarpDepleted' })
+    }
+  }
+
+  return { ...warp, active, meter }
+}
+
+// Kills buy back bullet time
+export function refillTimeWarp(warp: TimeWarpState, events: GameEvent[]): TimeWarpState {
+  const gained = events.reduce((sum, event) => {
+    if (event.type === 'enemyKilled') return sum + KILL_REFILL
+    if (event.type === 'bossDefeated') return sum + BOSS_REFILL
+    return sum
+  }, 0)
+  return gained > 0 ? { ...warp, meter: Math.min(warp.maxMeter, warp.meter + gained) } : warp
+}
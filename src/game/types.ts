@@ -0,0 +1,321 @@
+import type { ArchetypeId } from './archetypes'
+import type { BuffId } from './buffs'
+import type { WeaponId } from './weapons'
+
+// How an enemy projectile's flight bends over time; all zero flies straight
+export interface ProjectileMotion {
+  acceleration: number // pixels per second squared along the direction of travel
+  curve: number // radians per second the heading turns by itself
+  homing: number // max radians per second it turns towards the player
+  wAmplitude: number // w units it swings either side of its path
+  wFrequency: number // swings per second
+  releaseAfter: number // ms a mine hangs in place before launching at the player
+}
+
+export interface EnemyProjectile {
+  id: string
+  x: number
+  y: number
+  z: number
+  w: number
+  vx: number
+  vy: number
+  vw: number // drift along w, per second
+  damage: number
+  color: string
+  size: number
+  wTolerance: number
+  timeResistance: number // inherited from the shooter, see TIME_RESISTANCE
+  age: number // ms of the projectile's own (possibly warped) time
+  motion: ProjectileMotion
+}
+
+// Fired by the player's projectile weapons; always on the player's (unwarped) time
+export interface PlayerProjectile {
+  id: string
+  x: number
+  y: number
+  w: number
+  vx: number
+  vy: number
+  vw: number
+  damage: number
+  color: string
+  size: number
+  wTolerance: number
+  age: number // ms since it was fired
+  lifetime: number
+  splashRadius: number
+  bouncesLeft: number
+}
+
+// A thrown grenade; `height` only shapes its arc, it lands and detonates when that hits 0
+export interface Grenade {
+  id: string
+  x: number
+  y: number
+  w: number
+  height: number
+  vx: number
+  vy: number
+  vHeight: number
+}
+
+// Resources dropped by defeated enemies, or power-ups spawned around the arena;
+// either is pulled in once the player gets close in x/y and w
+export interface Pickup {
+  id: string
+  kind: 'ammo' | 'health' | 'phaseEnergy' | BuffId
+  x: number
+  y: number
+  w: number
+  expiresAt: number
+}
+
+export interface BossState {
+  name: string
+  phase: number // index into BOSS_PHASES
+  lastBurst: number
+  lastHop: number
+  lastSummon: number
+  hoppedAway: boolean // currently hiding out of the player's phase
+  minionsSummoned: number
+  volley: VolleyState // progress through the current phase's script
+}
+
+// Where an enemy is in its script of volleys, see patterns.ts
+export interface VolleyState {
+  step: number // index into the script
+  repeat: number // volleys fired so far of the current step
+  spin: number // radians spirals and rings have rotated so far
+  wait: number // ms after the last volley before the next one
+}
+
+// Dimensional enemies' phase-dodging bookkeeping
+export interface EvasionState {
+  trackedFor: number // ms the crosshair has stayed on the enemy
+  lastDodge: number
+  targetW: number // where along w the enemy is heading
+  homeW: number // where it returns to after cloaking
+  cloakedUntil: number // 0 when not cloaked
+}
+
+export type AiMode = 'idle' | 'alert' | 'pursue' | 'strafe' | 'flee'
+
+export interface AiState {
+  mode: AiMode
+  since: number // enemy clock when the current mode was entered
+  strafeDirection: number // 1 or -1, which way the enemy circles the player
+  wanderAngle: number // heading while idle
+}
+
+export interface Enemy {
+  id: string
+  x: number
+  y: number
+  z: number
+  w: number // 4th dimension coordinate
+  vx: number
+  vy: number
+  health: number
+  maxHealth: number
+  shield: number // soaks up damage before health; only some archetypes have one
+  maxShield: number
+  archetype: ArchetypeId
+  type: 'normal' | 'dimensional' | 'boss'
+  color: string
+  size: number // radius of the enemy's hypersphere
+  isActive: boolean
+  clock: number // the enemy's own ms, slowed by time warp according to timeResistance
+  timeResistance: number
+  lastShot: number // lastShot, lastDamaged and the boss/evasion timers all read `clock`
+  lastDamaged: number
+  shootCooldown: number
+  accuracy: number
+  lead: number // 0-1, how far ahead of a moving player the enemy aims
+  detectionRange: number
+  volley: VolleyState
+  ai: AiState
+  squad: SquadSlot | null // null for bosses, which fight outside the squad
+  boss?: BossState
+  evasion?: EvasionState
+}
+
+export interface ActiveBuff {
+  endsAt: number
+  duration: number // total length of the current run, for HUD countdowns
+  charge: number // damage a shield can still absorb, 0 for other buffs
+}
+
+// The player's position along w is driven by a target it eases towards
+export interface PlayerPhase {
+  targetW: number
+  vw: number
+  energy: number
+  maxEnergy: number
+  heldFor: number // seconds Q/E has been held, ramps the shift speed
+  lastShift: number
+}
+
+export interface Player {
+  x: number
+  y: number
+  z: number
+  w: number
+  vx: number
+  vy: number
+  phase: PlayerPhase
+  health: number
+  maxHealth: number
+  shield: number // soaks up damage before health, recharges after a while unhurt
+  maxShield: number
+  armor: number // fraction taken off damage that gets past the shield
+  weaponId: WeaponId
+  inventory: WeaponId[]
+  ammo: Record<WeaponId, number> // rounds left in each weapon's magazine
+  reserve: Record<WeaponId, number> // spare rounds each reload draws from
+  lastFired: number
+  grenadeCount: number
+  buffs: Partial<Record<BuffId, ActiveBuff>>
+  triggerHeld: boolean // as of the previous step, so semi and burst weapons can spot new pulls
+  burstLeft: number // queued shots of a burst in progress
+  score: number
+  level: number
+  lastDamaged: number
+}
+
+// Spherical in x/y, a slab of thickness 2 * wRadius along w
+export interface PlayerHitbox {
+  x: number
+  y: number
+  w: number
+  radius: number
+  wRadius: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Screen-space aim position on the canvas
+export type Crosshair = Point
+
+// World-space point at the center of the viewport
+export type Camera = Point
+
+// Everything the player did since the previous step
+export interface GameInput {
+  crosshair: Crosshair
+  move: Point // held WASD direction, each axis in -1..1
+  shoot: boolean // trigger held
+  reload: boolean
+  throwGrenade: boolean
+  selectWeapon: number | null // number-key slot, 0-based
+  cycleWeapon: number // scroll direction: -1, 0 or 1
+  phaseShift: number // held Q/E direction: -1, 0 or 1
+  toggleTimeWarp: boolean
+  rewind: boolean // held
+}
+
+export type GameEvent =
+  | { type: 'playerShot' }
+  | { type: 'playerHit'; damage: number }
+  | { type: 'shieldBroken' }
+  | { type: 'enemyKilled'; enemyId: string }
+  | { type: 'shotPhasedThrough'; enemyId: string }
+  | { type: 'levelComplete'; level: number }
+  | { type: 'bossIntro'; enemyId: string; name: string }
+  | { type: 'bossPhaseChanged'; enemyId: string; phase: number }
+  | { type: 'bossDefeated'; enemyId: string; bonus: number }
+  | { type: 'timeWarpDepleted' }
+  | { type: 'rewindStarted' }
+  | { type: 'rewindEnded' }
+  | { type: 'pickupCollected'; kind: Pickup['kind'] }
+
+// Short-lived, purely visual things the renderer draws from game state
+export type VisualEffect =
+  | { type: 'tracer'; from: Point; to: Point; createdAt: number; duration: number }
+  | { type: 'phaseRipple'; x: number; y: number; createdAt: number; duration: number }
+  | { type: 'explosion'; x: number; y: number; radius: number; createdAt: number; duration: number }
+  | { type: 'shockwave'; x: number; y: number; radius: number; createdAt: number; duration: number }
+  | { type: 'shieldBreak'; x: number; y: number; createdAt: number; duration: number }
+
+// Centered announcement such as a boss intro
+export interface Banner {
+  title: string
+  subtitle: string
+  endsAt: number
+}
+
+// Bullet time: a meter that drains while active and refills on kills
+export interface TimeWarpState {
+  active: boolean
+  meter: number
+  maxMeter: number
+}
+
+// What rewinding restores; the rest of the world is frozen until playback ends
+export interface RewindSnapshot {
+  player: Player
+  enemies: Enemy[]
+  enemyProjectiles: EnemyProjectile[]
+  playerProjectiles: PlayerProjectile[]
+  grenades: Grenade[]
+  pickups: Pickup[]
+}
+
+export interface RewindState {
+  history: RewindSnapshot[] // oldest first
+  active: boolean
+  usesLeft: number // resets every level
+  cooldownEndsAt: number
+}
+
+export type SquadRole = 'suppressor' | 'flanker' | 'phaseDiver'
+
+export interface SquadSlot {
+  role: SquadRole
+  side: number // flankers: 1 or -1, which way round the player they circle
+  flankAngle: number // flankers: bearing from the player they attack from
+  lurking: boolean // phase-divers: already holding off out of phase while they wait for a token
+}
+
+// Permission for one enemy to attack; held until a little after it fires
+export interface AttackToken {
+  enemyId: string
+  grantedAt: number
+  firedAt: number | null
+}
+
+// Encounter-level coordination of the current level's enemies, on world time
+export interface SquadState {
+  members: string[] // ids of the living members as of the last step
+  tokens: AttackToken[]
+  nextGrantAt: number // tokens are handed out no closer together than this
+  waveGrants: number // tokens granted since the last lull
+  quietUntil: number // no new tokens before this (lulls and regrouping)
+}
+
+export interface GameState {
+  seed: number
+  rngState: number
+  time: number // milliseconds since the game started, as the player experiences them
+  status: 'playing' | 'gameOver'
+  player: Player
+  camera: Camera
+  enemies: Enemy[]
+  enemyProjectiles: EnemyProjectile[]
+  playerProjectiles: PlayerProjectile[]
+  grenades: Grenade[] // in flight
+  pickups: Pickup[]
+  nextPowerUpAt: number
+  effects: VisualEffect[]
+  banner: Banner | null
+  warp: TimeWarpState
+  timeWarp: number // current time scale of unresisting enemies, 1 outside bullet time
+  rewind: RewindState
+  squad: SquadState
+  reloadEndsAt: number | null
+  events: GameEvent[] // emitted by the most recent step
+}
@@ -0,0 +1,218 @@
+export type WeaponId = 'pistol' | 'shotgun' | 'carbine' | 'rifle' | 'railgun' | 'plasma' | 'rockets' | 'shards'
+
+// semi: one shot per trigger pull, burst: `burst` shots per pull, auto: fires while held
+export type FireMode = 'semi' | 'burst' | 'auto'
+
+// Weapons with one of these fire simulated projectiles instead of hitscan rays.
+// They fly until they've covered the weapon's range, and stop at the first enemy hit.
+export interface ProjectileSpec {
+  speed: number // pixels per second
+  size: number
+  color: string
+  wDrift: number // max w units per second each projectile drifts
+  splashRadius: number // explodes on impact when > 0
+  bounces: number // times it can ricochet off the arena walls
+}
+
+export interface Weapon {
+  id: WeaponId
+  name: string
+  damage: number // per pellet
+  fireMode: FireMode
+  fireRate: number // shots per second, also the cadence inside a burst
+  burst: number // shots per trigger pull in burst mode
+  spread: number // radians across the whole cone
+  pellets: number // rays per shot
+  magazine: number
+  maxReserve: number // spare rounds carried for reloading
+  reloadTime: number // ms
+  range: number // pixels a ray travels
+  wTolerance: number // how far out of phase a target can be and still get hit
+  penetration: number // enemies a ray can pass through after the first hit
+  projectile: ProjectileSpec | null
+}
+
+export const WEAPONS: Record<WeaponId, Weapon> = {
+  pistol: {
+    id: 'pistol',
+    name: 'Pistol',
+    damage: 20,
+    fireMode: 'semi',
+    fireRate: 4,
+    burst: 1,
+    spread: 0.02,
+    pellets: 1,
+    magazine: 12,
+    maxReserve: 96,
+    reloadTime: 1200,
+    range: 900,
+    wTolerance: 8,
+    penetration: 0,
+    projectile: null
+  },
+  shotgun: {
+    id: 'shotgun',
+    name: 'Shotgun',
+    damage: 12,
+    fireMode: 'semi',
+    fireRate: 1.2,
+    burst: 1,
+    spread: 0.35,
+    pellets: 8,
+    magazine: 6,
+    maxReserve: 36,
+    reloadTime: 2200,
+    range: 450,
+    wTolerance: 10,
+    penetration: 0,
+    projectile: null
+  },
+  carbine: {
+    id: 'carbine',
+    name: 'Burst Carbine',
+    damage: 18,
+    fireMode: 'burst',
+    fireRate: 12,
+    burst: 3,
+    spread: 0.04,
+    pellets: 1,
+    magazine: 24,
+    maxReserve: 144,
+    reloadTime: 1800,
+    range: 850,
+    wTolerance: 7,
+    penetration: 0,
+    projectile: null
+  },
+  rifle: {
+    id: 'rifle',
+    name: 'Auto Rifle',
+    damage: 15,
+    fireMode: 'auto',
+    fireRate: 9,
+    burst: 1,
+    spread: 0.06,
+    pellets: 1,
+    magazine: 30,
+    maxReserve: 180,
+    reloadTime: 2000,
+    range: 800,
+    wTolerance: 6,
+    penetration: 0,
+    projectile: null
+  },
+  railgun: {
+    id: 'railgun',
+    name: 'Phase Railgun',
+    damage: 90,
+    fireMode: 'semi',
+    fireRate: 0.8,
+    burst: 1,
+    spread: 0,
+    pellets: 1,
+    magazine: 3,
+    maxReserve: 12,
+    reloadTime: 2800,
+    range: 1400,
+    // Reaches across neighbouring w slices and tears through everything in its line
+    wTolerance: 60,
+    penetration: 5,
+    projectile: null
+  },
+  plasma: {
+    id: 'plasma',
+    name: 'Plasma Caster',
+    damage: 22,
+    fireMode: 'auto',
+    fireRate: 6,
+    burst: 1,
+    spread: 0.05,
+    pellets: 1,
+    magazine: 40,
+    maxReserve: 200,
+    reloadTime: 2200,
+    range: 1000,
+    wTolerance: 10,
+    penetration: 0,
+    projectile: { speed: 700, size: 5, color: '#38bdf8', wDrift: 0, splashRadius: 0, bounces: 0 }
+  },
+  rockets: {
+    id: 'rockets',
+    name: 'Rocket Launcher',
+    damage: 80,
+    fireMode: 'semi',
+    fireRate: 0.9,
+    burst: 1,
+    spread: 0,
+    pellets: 1,
+    magazine: 4,
+    maxReserve: 12,
+    reloadTime: 2600,
+    range: 1100,
+    wTolerance: 12,
+    penetration: 0,
+    projectile: { speed: 320, size: 7, color: '#fb923c', wDrift: 0, splashRadius: 110, bounces: 0 }
+  },
+  shards: {
+    id: 'shards',
+    name: 'Shard Launcher',
+    damage: 14,
+    fireMode: 'semi',
+    fireRate: 1.5,
+    burst: 1,
+    spread: 0.5,
+    pellets: 5,
+    magazine: 8,
+    maxReserve: 40,
+    reloadTime: 2000,
+    range: 1200,
+    wTolerance: 8,
+    penetration: 0,
+    // Shards wander off the player's slice a little as they fly
+    projectile: { speed: 550, size: 3, color: '#e879f9', wDrift: 20, splashRadius: 0, bounces: 2 }
+  }
+}
+
+// Number-key slots, in order
+export const WEAPON_SLOTS: WeaponId[] = ['pistol', 'shotgun', 'carbine', 'rifle', 'railgun', 'plasma', 'rockets', 'shards']
+
+export const fullMagazines = () =>
+  Object.fromEntries(WEAPON_SLOTS.map(id => [id, WEAPONS[id].magazine])) as Record<WeaponId, number>
+
+// Two spare magazines each to start with
+export const startingReserves = () =>
+  Object.fromEntries(
+    WEAPON_SLOTS.map(id => [id, Math.min(WEAPONS[id].maxReserve, WEAPONS[id].magazine * 2)])
+  ) as Record<WeaponId, number>
+
+// The weapon picked by a number-key slot or a scroll step through the inventory
+export function chooseWeapon(
+  inventory: WeaponId[],
+  current: WeaponId,
+  slot: number | null,
+  cycle: number
+): WeaponId {
+  if (slot !== null) {
+    const id = WEAPON_SLOTS[slot]
+    return id && inventory.includes(id) ? id : current
+  }
+  if (cycle === 0 || inventory.length === 0) return current
+  const index = inventory.indexOf(current)
+  return inventory[(index + Math.sign(cycle) + inventory.length) % inventory.length]
+}
+
+// Whether the trigger calls for a shot this step, and how many burst shots are still queued.
+// The caller still gates the shot on fire rate, ammo and reloading.
+export function pullTrigger(weapon: Weapon, held: boolean, wasHeld: boolean, burstLeft: number) {
+  const pressed = held && !wasHeld
+  switch (weapon.fireMode) {
+    case 'semi':
+      return { wantsShot: pressed, burstLeft: 0 }
+    case 'auto':
+      return { wantsShot: held, burstLeft: 0 }
+    case 'burst': {
+      const queued = burstLeft > 0 ? burstLeft : pressed ? weapon.burst : 0
+      return { wantsShot: queued > 0, burstLeft: queued }
+    }
+  }
+}
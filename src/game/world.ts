@@ -0,0 +1,49 @@
+import type { Camera, Player, Point } from './types'
+
+// Size of the canvas viewport in pixels
+export const VIEW_WIDTH = 800
+export const VIEW_HEIGHT = 600
+
+// The arena is centered on the origin and larger than the viewport
+export const ARENA = {
+  minX: -1200,
+  maxX: 1200,
+  minY: -900,
+  maxY: 900
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+export function clampToArena(x: number, y: number, margin = 0) {
+  return {
+    x: clamp(x, ARENA.minX + margin, ARENA.maxX - margin),
+    y: clamp(y, ARENA.minY + margin, ARENA.maxY - margin)
+  }
+}
+
+export function isInArena(x: number, y: number, margin = 0) {
+  return x > ARENA.minX - margin && x < ARENA.maxX + margin &&
+    y > ARENA.minY - margin && y < ARENA.maxY + margin
+}
+
+// Center the camera on the player, without showing anything past the arena edges
+export function followPlayer(player: Player): Camera {
+  return {
+    x: clamp(player.x, ARENA.minX + VIEW_WIDTH / 2, ARENA.maxX - VIEW_WIDTH / 2),
+    y: clamp(player.y, ARENA.minY + VIEW_HEIGHT / 2, ARENA.maxY - VIEW_HEIGHT / 2)
+  }
+}
+
+export function worldToScreen(camera: Camera, x: number, y: number): Point {
+  return {
+    x: x - camera.x + VIEW_WIDTH / 2,
+    y: y - camera.y + VIEW_HEIGHT / 2
+  }
+}
+
+export function screenToWorld(camera: Camera, point: Point): Point {
+  return {
+    x: point.x + camera.x - VIEW_WIDTH / 2,
+    y: point.y + camera.y - VIEW_HEIGHT / 2
+  }
+}